@@ -1,4 +1,4 @@
-import type { FbLabel } from './definitions';
+import type { FbLabel, FbOutputMode, FbPostType } from './definitions';
 
 export const MOBILE_HOST = 'm.facebook.com';
 export const MOBILE_ADDRESS = `https://m.facebook.com${MOBILE_HOST}`;
@@ -11,12 +11,16 @@ export const LABELS: Record<FbLabel, FbLabel> = {
     PAGE: 'PAGE',
     PHOTO: 'PHOTO',
     POST: 'POST',
+    EVENT: 'EVENT',
+    ALBUM: 'ALBUM',
+    VIDEO: 'VIDEO',
 };
 
 export const CSS_SELECTORS = {
     SEE_MORE: '[src*="HOn-DOfNHK1"],[src*="ZfrShcKhxxi"]',
     POST_TIME: 'abbr',
     POST_CONTAINER: '[role="feed"] [role="article"]',
+    SHARED_POST: '._5r69',
     PAGE_TRANSPARENCY: '[img*="ot671xmFQRs"]',
     MOBILE_CAPTCHA: 'img[src*="/captcha/"]',
     DESKTOP_CAPTCHA: '[data-captcha-class]',
@@ -30,9 +34,261 @@ export const CSS_SELECTORS = {
     MOBILE_LOADING_INDICATOR: '[data-sigil*="m-loading-indicator-animate"][style]',
     LOAD_COMMENTS: '[role="article"] a[role="button"]:not([ajaxify]):not([target="_blank"])',
     LOAD_MORE_COMMENTS: 'form[rel="async"] div a[role="button"][href="#"]:not([data-ordering]):not([ajaxify])',
+    LOAD_REPLIES: 'form[rel="async"] ul a[role="button"][href="#"]:not([data-ordering]):not([ajaxify])',
     LDJSON: 'head script[type="application/ld+json"]',
     COMMENT_ORDER: 'form[rel="async"] [data-ordering]',
     SERVICES: 'ul li ul li[id]',
+    EVENTS: 'a[href*="/events/"]',
+    ALBUMS: 'a[href*="/albums/"],a[href*="/media/set/"],a[href*="/photos/a."]',
+    ALBUM_PHOTOS: 'a[href*="/photos/"],a[href*="photo.php"]',
+    PHOTO_CAPTION: '.fbPhotosPhotoCaption',
+    VIDEOS: 'a[href*="/videos/"]',
+    RELATED_PAGES: '[data-sigil*="related-pages"] a[href]',
+    LIKED_PAGES: '[data-sigil*="liked-pages"] a[href]',
+    THEATER_IMAGE: 'img.spotlight,img[data-visualcompletion="media-vc-image"]',
+};
+
+/**
+ * Current data format version of each output layout, bumped once
+ * on each release that changes it. The streamed layouts are new on 6.0.0
+ */
+export const OUTPUT_VERSIONS: Record<FbOutputMode, number> = {
+    PAGE: 5,
+    STREAM: 1,
+    NORMALIZED: 1,
+};
+
+/**
+ * Event dates are only known on the event page, so with a date window
+ * up to `maxEvents` times this many events are visited to find them
+ */
+export const EVENT_CANDIDATES = 5;
+
+/**
+ * First path segments of Facebook links that aren't pages
+ */
+export const NON_PAGE_PATHS = [
+    'pages',
+    'pg',
+    'groups',
+    'events',
+    'watch',
+    'hashtag',
+    'help',
+    'policies',
+    'login',
+    'login.php',
+    'photo.php',
+    'story.php',
+    'permalink.php',
+    'settings',
+    'marketplace',
+    'gaming',
+    'home.php',
+    'notes',
+    'search',
+    'biz',
+    'media',
+    'sharer',
+    'l.php',
+];
+
+/**
+ * File extensions of the downloaded media records
+ */
+export const MEDIA_EXTENSIONS: Record<string, string> = {
+    'image/jpeg': 'jpg',
+    'image/png': 'png',
+    'image/gif': 'gif',
+    'image/webp': 'webp',
+    'video/mp4': 'mp4',
+};
+
+/**
+ * Profile fields that are compared between runs when tracking changes
+ */
+export const TRACKED_PROFILE_FIELDS = [
+    'phone',
+    'website',
+    'email',
+    'categories',
+    'priceRange',
+    'address',
+    'verified',
+] as const;
+
+/**
+ * Facebook language codes that aren't valid for Intl,
+ * or aren't supported by it, mapped to the closest one
+ */
+export const INTL_LOCALES: Record<string, string> = {
+    'cx-PH': 'ceb-PH',
+    'eo-EO': 'eo',
+    'tl-PH': 'fil-PH',
+    'sz-PL': 'pl-PL',
+    'es-LA': 'es-419',
+    'zz-TR': 'tr-TR',
+    'ar-AR': 'ar',
+    'cb-IQ': 'ckb-IQ',
+    'sy-SY': 'ar-SY',
+    'tz-MA': 'tzm-MA',
+    'ja-KS': 'ja-JP',
+};
+
+/**
+ * "Always open" text on opening hours, in lower case
+ * and without accents
+ */
+export const ALWAYS_OPEN_PHRASES = [
+    'always open',
+    'immer geoffnet',
+    'siempre abierto',
+    'toujours ouvert',
+    'sempre aberto',
+    'sempre aperto',
+    'altijd geopend',
+    'zawsze otwarte',
+    'her zaman acik',
+    'всегда открыто',
+];
+
+/**
+ * "Closed" text on opening hours, per Intl language of the
+ * `language` input. English is always understood, since some
+ * pages aren't fully translated
+ */
+export const CLOSED_PHRASES: Record<string, string[]> = {
+    af: ['gesluit'],
+    am: ['ዝግ'],
+    ar: ['مغلق'],
+    as: ['বন্ধ'],
+    az: ['bağlı'],
+    be: ['зачынена'],
+    bg: ['затворено'],
+    bn: ['বন্ধ'],
+    br: ['serret'],
+    bs: ['zatvoreno'],
+    ca: ['tancat'],
+    ceb: ['sirado'],
+    ckb: ['داخراوە'],
+    co: ['chjosu'],
+    cs: ['zavřeno'],
+    cy: ['ar gau'],
+    da: ['lukket'],
+    de: ['geschlossen'],
+    el: ['κλειστό'],
+    en: ['closed'],
+    eo: ['fermita'],
+    es: ['cerrado'],
+    et: ['suletud'],
+    eu: ['itxita'],
+    fa: ['بسته'],
+    fi: ['suljettu'],
+    fil: ['sarado'],
+    fo: ['stongt'],
+    fr: ['fermé'],
+    fy: ['ticht'],
+    ga: ['dúnta'],
+    gl: ['pechado'],
+    gu: ['બંધ'],
+    ha: ['a rufe'],
+    he: ['סגור'],
+    hi: ['बंद'],
+    hr: ['zatvoreno'],
+    ht: ['fèmen'],
+    hu: ['zárva'],
+    hy: ['փակ է'],
+    id: ['tutup'],
+    is: ['lokað'],
+    it: ['chiuso'],
+    ja: ['定休日', '休業'],
+    jv: ['tutup'],
+    ka: ['დახურულია'],
+    kk: ['жабық'],
+    km: ['បិទ'],
+    kn: ['ಮುಚ್ಚಲಾಗಿದೆ'],
+    ko: ['휴무'],
+    ku: ['girtî'],
+    ky: ['жабык'],
+    lo: ['ປິດ'],
+    lt: ['uždaryta'],
+    lv: ['slēgts'],
+    mg: ['mikatona'],
+    mk: ['затворено'],
+    ml: ['അടച്ചിരിക്കുന്നു'],
+    mn: ['хаалттай'],
+    mr: ['बंद'],
+    ms: ['tutup'],
+    mt: ['magħluq'],
+    my: ['ပိတ်'],
+    nb: ['stengt'],
+    ne: ['बन्द'],
+    nl: ['gesloten'],
+    nn: ['stengt'],
+    or: ['ବନ୍ଦ'],
+    pa: ['ਬੰਦ'],
+    pl: ['zamknięte'],
+    ps: ['تړلی'],
+    pt: ['fechado'],
+    ro: ['închis'],
+    ru: ['закрыто'],
+    sc: ['serradu'],
+    si: ['වසා ඇත'],
+    sk: ['zatvorené'],
+    sl: ['zaprto'],
+    so: ['xiran'],
+    sq: ['mbyllur'],
+    sr: ['затворено'],
+    sv: ['stängt'],
+    sw: ['imefungwa'],
+    ta: ['மூடப்பட்டது'],
+    te: ['మూసివేయబడింది'],
+    tg: ['пӯшида'],
+    th: ['ปิด'],
+    tr: ['kapalı'],
+    tt: ['ябык'],
+    uk: ['зачинено'],
+    ur: ['بند'],
+    uz: ['yopiq'],
+    vi: ['đóng cửa'],
+    zh: ['休息', '公休'],
+};
+
+/**
+ * Postal code formats that belong to a single country
+ */
+export const POSTAL_CODE_COUNTRIES: Array<[RegExp, string]> = [
+    [/^[a-z]\d[a-z] ?\d[a-z]\d$/i, 'CA'],
+    [/^[a-z]{1,2}\d[a-z\d]? ?\d[a-z]{2}$/i, 'GB'],
+    [/^\d{4} ?[a-z]{2}$/i, 'NL'],
+    [/^\d{5}-\d{3}$/, 'BR'],
+    [/^\d{3}-\d{4}$/, 'JP'],
+    [/^\d{2}-\d{3}$/, 'PL'],
+    [/^\d{4}-\d{3}$/, 'PT'],
+    [/^\d{5}-\d{4}$/, 'US'],
+];
+
+/**
+ * US state codes, for telling the US apart on 5 digits postal codes
+ */
+export const US_STATES = [
+    'AL', 'AK', 'AZ', 'AR', 'CA', 'CO', 'CT', 'DE', 'DC', 'FL', 'GA', 'HI', 'ID', 'IL', 'IN', 'IA', 'KS',
+    'KY', 'LA', 'ME', 'MD', 'MA', 'MI', 'MN', 'MS', 'MO', 'MT', 'NE', 'NV', 'NH', 'NJ', 'NM', 'NY', 'NC',
+    'ND', 'OH', 'OK', 'OR', 'PA', 'RI', 'SC', 'SD', 'TN', 'TX', 'UT', 'VT', 'VA', 'WA', 'WV', 'WI', 'WY',
+];
+
+/**
+ * `story_attachment_style` of each post type. Posts without
+ * an attachment are status updates
+ */
+export const POST_TYPE_STYLES: Record<Exclude<FbPostType, 'status' | 'shared'>, string[]> = {
+    photo: ['photo', 'cover_photo', 'profile_media'],
+    album: ['album', 'new_album', 'photo_set'],
+    video: ['video', 'video_inline', 'video_autoplay', 'video_direct_response', 'animated_image_video'],
+    live: ['live_video', 'live_video_broadcast'],
+    reel: ['fb_shorts_story', 'reel'],
+    link: ['share', 'share_large_image', 'link', 'native_templates'],
+    event: ['event', 'event_ticket'],
 };
 
 export const PSN_POST_TYPE_BLACKLIST = [
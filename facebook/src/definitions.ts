@@ -1,7 +1,9 @@
-export type FbSection = 'home' | 'posts' | 'about' | 'reviews' | 'services';
-export type FbLabel = 'LISTING' | 'PAGE' | 'POST' | 'PHOTO' | 'SEARCH';
+export type FbSection = 'home' | 'posts' | 'about' | 'reviews' | 'services' | 'events' | 'photos' | 'videos';
+export type FbLabel = 'LISTING' | 'PAGE' | 'POST' | 'PHOTO' | 'SEARCH' | 'EVENT' | 'ALBUM' | 'VIDEO';
 export type FbCommentsMode = 'RANKED_THREADED' | 'RECENT_ACTIVITY' | 'RANKED_UNFILTERED';
 export type FbMap = Map<string, Partial<FbPage>>;
+export type FbOutputMode = 'PAGE' | 'STREAM' | 'NORMALIZED';
+export type FbRecordType = 'page' | 'post' | 'comment' | 'review' | 'service' | 'event' | 'album' | 'photo' | 'video' | 'edge' | 'change' | 'snapshot';
 
 export interface FbError {
     errors: Array<{
@@ -27,6 +29,10 @@ export interface FbGraphQl {
     // only the important parts
     data: {
         feedback: {
+            /**
+             * The feedback of the post, or of the comment when loading replies
+             */
+            id?: string;
             display_comments: {
                 count: number;
                 edges: Array<{
@@ -35,6 +41,7 @@ export interface FbGraphQl {
                         id: string;
                         legacy_fbid: string;
                         author: {
+                            __typename?: string;
                             name: string;
                             url: string;
                             id: string;
@@ -48,7 +55,57 @@ export interface FbGraphQl {
                         url: string;
                         body: {
                             text: string;
+                            ranges?: Array<{
+                                offset: number;
+                                length: number;
+                                entity: {
+                                    __typename: string;
+                                    id?: string;
+                                    url?: string | null;
+                                };
+                            }>;
+                        } | null;
+                        /**
+                         * 0 for comments, 1 for replies, and so on
+                         */
+                        depth?: number;
+                        comment_parent?: {
+                            id: string;
+                        } | null;
+                        feedback?: {
+                            id: string;
+                            display_comments?: {
+                                count: number;
+                            };
+                            reaction_count?: {
+                                count: number;
+                            };
+                            top_reactions?: {
+                                edges: Array<{
+                                    reaction_count: number;
+                                    node: {
+                                        reaction_type: string;
+                                    };
+                                }>;
+                            };
                         };
+                        /**
+                         * Stickers, images, gifs and shared links
+                         */
+                        attachments?: Array<{
+                            style_list?: string[];
+                            url?: string | null;
+                            media?: {
+                                __typename: string;
+                                image?: {
+                                    uri: string;
+                                } | null;
+                            } | null;
+                        }>;
+                        is_author_original_poster?: boolean;
+                        edit_history?: {
+                            count: number;
+                        } | null;
                     };
                 }>;
                 page_info: {
@@ -67,6 +124,8 @@ export interface Schema {
     minPostDate?: string;
     maxReviewDate?: string;
     maxPostComments?: number;
+    maxCommentReplies?: number;
+    maxCommentDepth?: number;
     maxCommentDate?: string;
     minCommentDate?: string;
     maxReviews?: number;
@@ -75,6 +134,20 @@ export interface Schema {
     scrapePosts?: boolean;
     countryCode?: boolean;
     scrapeServices?: boolean;
+    scrapeEvents?: boolean;
+    maxEvents?: number;
+    minEventDate?: string;
+    maxEventDate?: string;
+    scrapePhotos?: boolean;
+    maxAlbums?: number;
+    maxPhotos?: number;
+    scrapeVideos?: boolean;
+    maxVideos?: number;
+    minVideoDate?: string;
+    maxVideoDate?: string;
+    discoverPages?: boolean;
+    maxDiscoveryDepth?: number;
+    maxDiscoveredPages?: number;
     language?: string;
     commentsMode?: FbCommentsMode;
     sessionStorage?: string;
@@ -85,9 +158,49 @@ export interface Schema {
     searchLimit?: number;
     maxConcurrency?: number;
     searchPages?: string[];
+    outputMode?: FbOutputMode;
+    incremental?: boolean;
+    incrementalStore?: string;
+    resetIncremental?: boolean;
+    trackChanges?: boolean;
+    trackChangesStore?: string;
+    trackEngagement?: boolean;
+    engagementStore?: string;
+    engagementDays?: number;
+    validateOutput?: boolean;
+    webhookUrl?: string;
+    webhookHeaders?: Record<string, string>;
+    webhookBatchSize?: number;
+    webhookMaxRetries?: number;
+    webhookRetryDelaySecs?: number;
+    webhookDeadLetterStore?: string;
+    selectorHealth?: boolean;
+    selectorHealthStore?: string;
+    selectorOverrides?: SelectorOverrides;
+    selectorOverridesStore?: string;
+    fullResolutionImages?: boolean;
+    downloadMedia?: boolean;
+    mediaStore?: string;
+}
+
+export interface SelectorIconOverride {
+    add?: string[];
+    replace?: string[];
+}
+
+export interface SelectorOverrides {
+    /**
+     * Icon names per image selector field
+     */
+    icons?: Record<string, SelectorIconOverride>;
+    /**
+     * Selectors per CSS_SELECTORS key
+     */
+    css?: Record<string, string>;
 }
 
 export interface FbPageInfo {
+    pageId: string | null;
     verified: boolean;
     messenger: string;
     likes: number;
@@ -102,6 +215,10 @@ export interface FbFT {
     top_level_post_id: string;
     page_id: string;
     story_attachment_style: string;
+    /**
+     * Set on shared posts
+     */
+    original_content_id?: string;
     page_insights: {
         [index: string]: {
             psn: string;
@@ -137,13 +254,113 @@ export interface FbLocalBusiness {
     }>;
 }
 
+export interface FbLdEvent {
+    '@type': string;
+    name?: string;
+    url?: string;
+    startDate?: string;
+    endDate?: string;
+    location?: {
+        name?: string;
+        url?: string;
+        address?: string | {
+            streetAddress?: string;
+            addressLocality?: string;
+            addressRegion?: string;
+            postalCode?: string;
+            addressCountry?: string;
+        };
+    };
+    offers?: {
+        url?: string;
+    };
+}
+
+export interface FbReactionsBreakdown {
+    like?: number;
+    haha?: number;
+    wow?: number;
+    love?: number;
+    sorry?: number;
+    support?: number;
+    anger?: number;
+}
+
+export interface FbCommentAttachment {
+    /**
+     * Like sticker, photo, animated_image_share or share
+     */
+    type: string;
+    url: string | null;
+}
+
+export type FbEntityType = 'hashtag' | 'mention' | 'url';
+
+export interface FbEntity {
+    type: FbEntityType;
+    /**
+     * As it appears on the text
+     */
+    text: string;
+    /**
+     * Position on the text, in UTF-16 code units
+     */
+    offset: number;
+    length: number;
+    /**
+     * The profile or page of mentions, the hashtag page, or
+     * the target of urls without the Facebook redirector
+     */
+    url: string | null;
+}
+
+export interface FbCommentMention {
+    id: string | null;
+    name: string;
+    url: string | null;
+    /**
+     * Position of the mention on the comment text
+     */
+    offset: number;
+    length: number;
+}
+
 export interface FbComment {
+    /**
+     * Only null on comments migrated from before 6.0.0,
+     * that don't have the comment id on their url
+     */
+    id: string | null;
+    legacyId: string | null;
+    authorId: string | null;
     name: string;
     date: string;
     text: string | null; // image / gif comment
     profileUrl: string | null;
     profilePicture: string | null;
     url: string;
+    /**
+     * The comment being replied to, null on comments
+     */
+    parentId: string | null;
+    /**
+     * 0 for comments, 1 for replies, and so on
+     */
+    depth: number;
+    replyCount: number;
+    reactions: number;
+    reactionsBreakdown: FbReactionsBreakdown;
+    /**
+     * Stickers and images comments have no text, only the attachment
+     */
+    attachment: FbCommentAttachment | null;
+    mentions: FbCommentMention[];
+    entities: FbEntity[];
+    /**
+     * The comment is from the page itself
+     */
+    isPageAuthor: boolean;
+    edited: boolean;
 }
 
 export interface FbReview {
@@ -157,25 +374,64 @@ export interface FbReview {
 
 export interface FbImage {
     link: string;
+    /**
+     * The thumbnail seen on the post
+     */
     image: string;
+    alt: string | null;
+    /**
+     * From the theater link, when using `fullResolutionImages`
+     */
+    fullImage: string | null;
+    /**
+     * Record on the media store, when using `downloadMedia`
+     */
+    key: string | null;
+}
+
+export type FbPostType = 'status' | 'photo' | 'album' | 'video' | 'link' | 'shared' | 'event' | 'live' | 'reel';
+
+export interface FbPostVideo {
+    views: number | null;
+    /**
+     * In seconds
+     */
+    duration: number | null;
+    thumbnail: string | null;
+    url: string | null;
+}
+
+/**
+ * The original post of a shared post
+ */
+export interface FbSharedPost {
+    authorName: string | null;
+    authorUrl: string | null;
+    postUrl: string | null;
+    text: string | null;
 }
 
 export interface FbPost {
     postDate: string;
+    /**
+     * On shared posts, only the text the page added
+     */
     postText: string;
     postUrl: string;
+    postType: FbPostType;
+    /**
+     * Only on video, live and reel posts
+     */
+    postVideo: FbPostVideo | null;
+    sharedFrom: FbSharedPost | null;
+    /**
+     * Hashtags, mentions and urls of `postText`
+     */
+    entities: FbEntity[];
     postStats: {
         comments: number;
         reactions: number;
-        reactionsBreakdown: {
-          like: number;
-          haha: number;
-          wow: number;
-          love: number;
-          sorry: number;
-          support: number;
-          anger: number;
-        },
+        reactionsBreakdown: FbReactionsBreakdown;
         shares: number;
     };
     postComments: {
@@ -187,11 +443,167 @@ export interface FbPost {
     postLinks: string[];
 }
 
+export type FbPageRelation = 'related' | 'liked';
+
+/**
+ * A link between two pages, found on the source page
+ */
+export interface FbPageEdge {
+    source: string;
+    target: string;
+    relation: FbPageRelation;
+    /**
+     * Depth of the target page, start pages are 0
+     */
+    depth: number;
+}
+
+/**
+ * Post stats at a point in time
+ */
+export interface FbPostSnapshot {
+    postId: string | null;
+    postUrl: string;
+    postDate: string | null;
+    date: string;
+    postStats: FbPost['postStats'];
+}
+
 export interface FbService {
     title: string | null;
     text: string | null;
 }
 
+export interface FbEventVenue {
+    name: string | null;
+    address: string | null;
+    url: string | null;
+}
+
+export interface FbEvent {
+    id: string | null;
+    title: string | null;
+    url: string;
+    /**
+     * ISO 8601 with the offset of the event timezone
+     */
+    startDate: string | null;
+    endDate: string | null;
+    /**
+     * IANA timezone, like Europe/Prague
+     */
+    timezone: string | null;
+    /**
+     * Online events have no venue
+     */
+    venue: FbEventVenue | null;
+    ticketUrl: string | null;
+    interested: number | null;
+    going: number | null;
+    /**
+     * The event already ended
+     */
+    past: boolean;
+}
+
+export interface FbAlbum {
+    id: string;
+    name: string | null;
+    url: string;
+    photoCount: number | null;
+}
+
+export interface FbPhoto {
+    id: string;
+    albumId: string | null;
+    url: string;
+    caption: string | null;
+    date: string | null;
+    /**
+     * Full resolution image
+     */
+    image: string | null;
+    reactions: number;
+    comments: number;
+}
+
+export interface FbVideo {
+    id: string;
+    url: string;
+    title: string | null;
+    description: string | null;
+    date: string | null;
+    /**
+     * In seconds
+     */
+    duration: number | null;
+    views: number | null;
+    reactions: number;
+    comments: number;
+}
+
+export type FbWeekday = 'monday' | 'tuesday' | 'wednesday' | 'thursday' | 'friday' | 'saturday' | 'sunday';
+
+export interface FbHoursInterval {
+    /**
+     * 24-hour format, like 09:00
+     */
+    open: string;
+    /**
+     * 24-hour format, like 17:30. 24:00 is the end of the day
+     */
+    close: string;
+}
+
+export interface FbHoursDay {
+    closed: boolean;
+    open24h: boolean;
+    intervals: FbHoursInterval[];
+}
+
+export interface FbHours {
+    alwaysOpen: boolean;
+    /**
+     * Days that aren't listed are unknown
+     */
+    days: Partial<Record<FbWeekday, FbHoursDay>>;
+    /**
+     * The text the hours were parsed from
+     */
+    raw: string;
+}
+
+export interface FbPhone {
+    /**
+     * E.164 format, like +420222333444
+     */
+    number: string;
+    /**
+     * Like MOBILE, FIXED_LINE, TOLL_FREE or UNKNOWN
+     */
+    type: string;
+    /**
+     * ISO 3166-1 alpha-2 country of the number
+     */
+    country: string | null;
+    /**
+     * The text the number was parsed from
+     */
+    raw: string;
+}
+
+export interface FbProfileChange {
+    field: string;
+    oldValue: any;
+    newValue: any;
+    date: string;
+}
+
+export interface FbLikesHistory {
+    date: string;
+    likes: number;
+}
+
 export interface FbPage {
     // hidden fields
    "#startedAt"?: string;
@@ -199,12 +611,15 @@ export interface FbPage {
    "#url"?: string;
    "#ref"?: string;
    "#version"?: number;
+   "#layout"?: FbOutputMode;
 
     pageUrl: string;
+    pageId: string | null;
+    aliases: string[];
     title: string;
     verified: boolean;
     messenger: string | null;
-    checkins: string | null;
+    checkins: number | null;
     likes: number;
     priceRange: string | null;
     categories: string[];
@@ -213,6 +628,7 @@ export interface FbPage {
     email: string | null;
     twitter: string | null;
     phone: string | null;
+    phones: FbPhone[];
     transit: string | null;
     youtube: string | null;
     payment: string | null;
@@ -222,6 +638,7 @@ export interface FbPage {
     overview: string[];
     products: string[];
     instagram: string | null;
+    hours: FbHours | null;
     address: {
         lat: number | null;
         lng: number | null;
@@ -231,10 +648,34 @@ export interface FbPage {
         city: string | null;
     };
     services?: FbService[];
+    events?: FbEvent[];
+    albums?: FbAlbum[];
+    photos?: FbPhoto[];
+    videos?: FbVideo[];
     posts: FbPost[];
+    changes?: FbProfileChange[];
+    likesHistory?: FbLikesHistory[];
     reviews?: {
         average: number | null;
         count: number | null;
         reviews: FbReview[];
     };
  }
+
+/**
+ * A single item when using the STREAM or NORMALIZED output modes
+ */
+export type FbRecord = {
+    "#finishedAt"?: string;
+    "#version"?: number;
+    "#layout"?: FbOutputMode;
+
+    // STREAM
+    type?: FbRecordType;
+    pageUrl?: string;
+    postUrl?: string;
+
+    // NORMALIZED
+    username?: string;
+    postId?: string | null;
+} & (Partial<FbPage> | Omit<FbPost, 'postComments'> | FbComment | FbReview | FbService | FbEvent | FbAlbum | FbPhoto | FbVideo | FbPageEdge | FbProfileChange | FbPostSnapshot);
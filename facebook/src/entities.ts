@@ -0,0 +1,151 @@
+import type { FbEntity, FbEntityType } from './definitions';
+
+/**
+ * A link on the text, with the offset when it's known
+ */
+export interface EntityLink {
+    text: string;
+    url: string | null;
+    offset?: number;
+    type?: FbEntityType;
+}
+
+/**
+ * Facebook redirector, like https://l.facebook.com/l.php?u=https%3A%2F%2Fexample.com
+ */
+const REDIRECTOR = /^https?:\/\/(?:l|lm)\.facebook\.com\/l\.php/;
+
+/**
+ * Removes the Facebook redirector from the url, and the
+ * fbclid tracking parameter that is added to the target
+ */
+export const unwrapFacebookUrl = (url: string) => {
+    try {
+        const parsed = new URL(REDIRECTOR.test(url) ? new URL(url).searchParams.get('u') ?? url : url);
+
+        parsed.searchParams.delete('fbclid');
+
+        return parsed.toString();
+    } catch (e) {
+        return url;
+    }
+};
+
+/**
+ * Profile, page and hashtag urls without the tracking parameters
+ */
+const cleanProfileUrl = (url: string) => {
+    try {
+        const parsed = new URL(url);
+        const id = parsed.searchParams.get('id');
+
+        parsed.search = '';
+
+        if (id) {
+            parsed.searchParams.set('id', id);
+        }
+
+        return parsed.toString();
+    } catch (e) {
+        return url;
+    }
+};
+
+const linkType = (url: string): FbEntityType | null => {
+    if (REDIRECTOR.test(url)) {
+        return 'url';
+    }
+
+    if (/^https?:\/\/([a-z0-9-]+\.)?facebook\.com\//.test(url)) {
+        if (/\/hashtag\//.test(url)) {
+            return 'hashtag';
+        }
+
+        // "See more", photos and other links to the post itself
+        if (/\/(photos|videos|posts|story\.php|permalink\.php|events)\b/.test(url)) {
+            return null;
+        }
+
+        return 'mention';
+    }
+
+    return /^https?:\/\//.test(url) ? 'url' : null;
+};
+
+/**
+ * Hashtags, mentions and urls on the text, with their offsets, in
+ * UTF-16 code units like JavaScript strings. Mentions come from the
+ * links of the text, hashtags and urls are also found on the plain
+ * text. Urls are unwrapped from the Facebook redirector
+ */
+export const extractEntities = (text: string | null, links: EntityLink[] = []): FbEntity[] => {
+    if (!text) {
+        return [];
+    }
+
+    const entities: FbEntity[] = [];
+    const taken = (offset: number, length: number) => entities.some((entity) => {
+        return offset < entity.offset + entity.length && entity.offset < offset + length;
+    });
+
+    let from = 0;
+
+    for (const link of links) {
+        const type = link.type ?? (link.url ? linkType(link.url) : null);
+
+        if (!type || !link.text) {
+            continue; // eslint-disable-line no-continue
+        }
+
+        // links are in order, so the same name is found again later
+        const offset = link.offset ?? text.indexOf(link.text, from);
+
+        if (offset < 0 || taken(offset, link.text.length)) {
+            continue; // eslint-disable-line no-continue
+        }
+
+        if (link.offset === undefined) {
+            from = offset + link.text.length;
+        }
+
+        let url = link.url || null;
+
+        if (url) {
+            url = type === 'url' ? unwrapFacebookUrl(url) : cleanProfileUrl(url);
+        }
+
+        entities.push({
+            type,
+            text: link.text,
+            offset,
+            length: link.text.length,
+            url,
+        });
+    }
+
+    for (const match of text.matchAll(/(?<![\p{L}\p{N}_&/])#[\p{L}\p{M}\p{N}_]*[\p{L}\p{M}_][\p{L}\p{M}\p{N}_]*/gu)) {
+        if (!taken(match.index!, match[0].length)) {
+            entities.push({
+                type: 'hashtag',
+                text: match[0],
+                offset: match.index!,
+                length: match[0].length,
+                url: `https://www.facebook.com/hashtag/${encodeURIComponent(match[0].slice(1).toLowerCase())}`,
+            });
+        }
+    }
+
+    for (const match of text.matchAll(/\b(?:https?:\/\/|www\.)[^\s<>"]+[^\s<>".,;:!?)\]'’”]/gi)) {
+        if (!taken(match.index!, match[0].length)) {
+            entities.push({
+                type: 'url',
+                text: match[0],
+                offset: match.index!,
+                length: match[0].length,
+                url: unwrapFacebookUrl(/^www\./i.test(match[0]) ? `http://${match[0]}` : match[0]),
+            });
+        }
+    }
+
+    return entities.sort((a, b) => a.offset - b.offset);
+};
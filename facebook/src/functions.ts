@@ -2,10 +2,36 @@ import Apify from 'apify';
 import type { ElementHandle, Route, Response as HTTPResponse, Page } from 'playwright';
 import * as moment from 'moment';
 import * as vm from 'vm';
+import { parse as parseCss, isTraversal } from 'css-what';
 
 import { InfoError } from './error';
-import { CSS_SELECTORS, MOBILE_HOST, DESKTOP_HOST, DESKTOP_ADDRESS, LABELS } from './constants';
-import type { FbLocalBusiness, FbSection, FbLabel, FbReview, Schema, FbError, FbGraphQl, FbFT } from './definitions';
+import { recordSelector } from './health';
+import {
+    CSS_SELECTORS,
+    MOBILE_HOST,
+    DESKTOP_HOST,
+    DESKTOP_ADDRESS,
+    LABELS,
+    TRACKED_PROFILE_FIELDS,
+    INTL_LOCALES,
+    POST_TYPE_STYLES,
+} from './constants';
+import type {
+    FbLocalBusiness,
+    FbSection,
+    FbLabel,
+    FbReview,
+    Schema,
+    FbError,
+    FbGraphQl,
+    FbFT,
+    FbPage,
+    FbPost,
+    FbPostType,
+    FbProfileChange,
+    SelectorOverrides,
+    SelectorIconOverride,
+} from './definitions';
 
 const { log, sleep } = Apify.utils;
 
@@ -90,6 +116,45 @@ export const createAddPageSearch = (requestQueue: Apify.RequestQueue) => async (
     });
 };
 
+/**
+ * Normalized post type, from the post attachment style. Uses the
+ * post url when there's no style, like on posts from older versions
+ */
+export const getPostType = ({ style, shared = false, url }: { style?: string | null, shared?: boolean, url?: string | null }): FbPostType => {
+    if (shared) {
+        return 'shared';
+    }
+
+    if (style) {
+        const found = (Object.keys(POST_TYPE_STYLES) as Array<keyof typeof POST_TYPE_STYLES>)
+            .find((type) => POST_TYPE_STYLES[type].includes(style));
+
+        if (found) {
+            return found;
+        }
+    }
+
+    const path = `${url ?? ''}`;
+
+    if (/\/reel\//.test(path)) {
+        return 'reel';
+    }
+
+    if (/\/videos\//.test(path)) {
+        return 'video';
+    }
+
+    if (/\/events\//.test(path)) {
+        return 'event';
+    }
+
+    if (/\/photos\/a\./.test(path)) {
+        return 'photo';
+    }
+
+    return 'status';
+};
+
 /**
  * Takes a story.php and turns into a cleaned desktop permalink.php
  */
@@ -267,11 +332,23 @@ export const overrideUserData = (input: Schema, request: Apify.RequestOptions):
     };
 };
 
+export type CssSelectorKey = keyof typeof CSS_SELECTORS;
+
+/**
+ * CSS selectors from `selectorOverrides`, on top of `CSS_SELECTORS`
+ */
+const cssOverrides = new Map<CssSelectorKey, string>();
+
+/**
+ * The CSS selector of the key, overridden or the built-in one
+ */
+export const cssSelector = (key: CssSelectorKey) => cssOverrides.get(key) ?? CSS_SELECTORS[key];
+
 /**
  * Puppeteer $$ wrapper that gives some context and info
  * if the selector is missing
  */
-export const createPageSelector = <E extends Element, C extends (els: ElementHandle<E>[], page: Page) => Promise<any>>(selector: string, namespace: string, map: C) => {
+export const createPageSelector = <E extends Element, C extends (els: ElementHandle<E>[], page: Page) => Promise<any>>(selector: string | (() => string), namespace: string, map: C) => {
     type MapReturn = NonNullable<C extends (...args: any) => Promise<infer R> ? R : any>;
 
     return async (page: Page, wait = 0): Promise<MapReturn> => {
@@ -279,37 +356,77 @@ export const createPageSelector = <E extends Element, C extends (els: ElementHan
             return map([], page);
         }
 
-        if (!(await page.$$(selector)).length) {
-            if (wait > 0) {
-                try {
-                    await page.waitForSelector(selector, {
-                        timeout: wait,
-                        state: 'attached',
-                    });
-                } catch (e) {
-                    if (e.name !== 'TimeoutError') {
-                        // a non timeout error means something else, we need
-                        // to rethrow. a TimeoutError is expected
-                        throw e;
-                    }
+        // selectors from cssSelector can be overridden after startup
+        const current = typeof selector === 'function' ? selector() : selector;
+
+        let els = await page.$$(current);
+
+        if (!els.length && wait > 0) {
+            try {
+                await page.waitForSelector(current, {
+                    timeout: wait,
+                    state: 'attached',
+                });
+            } catch (e) {
+                if (e.name !== 'TimeoutError') {
+                    // a non timeout error means something else, we need
+                    // to rethrow. a TimeoutError is expected
+                    throw e;
                 }
+            }
+
+            els = await page.$$(current);
+
+            if (!els.length) {
+                recordSelector('pageSelectors', namespace, false);
 
                 throw new InfoError(`"${namespace}" page selector not found`, {
                     namespace,
-                    selector,
+                    selector: current,
                     url: page.url(),
                 });
             }
         }
 
-        return map(await page.$$(selector), page); // never fails, returns [] when not found
+        recordSelector('pageSelectors', namespace, els.length > 0);
+
+        return map(els, page); // never fails, returns [] when not found
     };
 };
 
+/**
+ * Icon names used by the image selectors
+ */
+const knownIcons = new Set<string>();
+
+/**
+ * Every icon next to a field text. Icons that aren't used by any
+ * image selector are usually a field that changed its icon
+ */
+export const getIconRows = async (page: Page) => {
+    const icons = await page.$$eval('div[id] img[src*=".png"]', async (els) => {
+        return els.map((el) => {
+            const name = (el as HTMLImageElement).src.match(/\/([^/]+)\.png/)?.[1];
+            const textDiv = el.closest('div[id]')?.querySelector<HTMLDivElement>(':scope > div');
+            const text = `${textDiv?.innerText || ''}`.trim();
+
+            return { name: name ?? '', text };
+        });
+    });
+
+    return icons.filter(({ name, text }) => name && text).map((icon) => ({ ...icon, known: knownIcons.has(icon.name) }));
+};
+
 /**
  * Find a field by image and get it's adjacent div text
  */
 export const createSelectorFromImageSrc = (names: string[]) => {
+    names.forEach((name) => knownIcons.add(name));
+
+    if (!names.length) {
+        return async (): Promise<string[]> => [];
+    }
+
     const selectors = names.map(name => `img[src*="${name}.png"]`).join(',');
 
     return async (page: Page) => {
@@ -361,28 +478,133 @@ export const createSelectorFromImageSrc = (names: string[]) => {
     };
 };
 
+/**
+ * Built-in icon names of each field, used by the image selectors
+ */
+const imageIcons = {
+    checkins: ['a0b87sO1_bq', '9Zt6zuj8e1D', '2lBnDDIRCyn'],
+    website: ['TcXGKbk-rV1', 'xVA3lB-GVep', 'EaDvTjOwxIV', 'aE7VLFYMYdl', '_E0siE7VRxg', 'ZWx4MakmUd4', 'D9kpGIZvg_a'],
+    categories: ['Knsy-moHXi6', 'LwDWwC1d0Rx', '3OfQvJdYD_W', 'Esxx6rJcLfG', 'Ae8V14AHXF3', 'I5oOkD-Jgg9'],
+    email: ['C1eWXyukMez', 'vKDzW_MdhyP', 'vPTKpTJr2Py', '7wycyFqCurV', 'usNPpfkTtic'],
+    info: ['u_owK2Sz5n6', 'fTt3W6Nw8z-', 'ufx6pe0BYZ9', 'nUK82gYKq3c', 'EXVJNaeBMtn'], // about / founded
+    impressum: ['7Pg05R2u_QQ', 'xJ79lPp3fxx', 'W1Gz3-6Jba9'],
+    instagram: ['EZj5-1P4vhh', 'kupnBwrQuQt', '4BDZkGZPYV7'],
+    twitter: ['IP-E0-f5J0m', '4D5dB8JnGdq', 'ITwSn0piq6L'],
+    youtube: ['MyCpzAb80U1'],
+    overview: ['uAsvCr33XaU', 'J7QgCgbppF8'],
+    awards: ['rzXNHRgEfui', 'catvAig7x2x'],
+    mission: ['z-wfU5xgk6Z', '3vccp1jK8fn'],
+    address: ['h2e1qHNjIzG', 'ya-WX5CZARc'],
+    phone: ['6oGknb-0EsE', 'znYEAkatLCe', 'BaiUsFiMGWy', 'BkWgVZPGfa0'],
+    priceRange: ['q-WY9vrfkFZ', 'cAfaJdw2ZpN', 'RoNYAkqnZi0'],
+    products: ['bBMZ-3vnEih', '9gnPGIXZf0x', 'kqozvTg_ESH'],
+    transit: ['uQHLMTQ0fUS', 'hHYECN5fVxU'],
+    payment: ['Dx9c291MaDt', '8qES65kbIT8'],
+    // the icon isn't known yet, add it with `selectorOverrides`
+    hours: [] as string[],
+};
+
+export type ImageSelectorField = keyof typeof imageIcons;
+
 /**
  * Text selectors that uses image names as a starting point
  */
-export const imageSelectors = {
-    checkins: createSelectorFromImageSrc(['a0b87sO1_bq', '9Zt6zuj8e1D', '2lBnDDIRCyn']),
-    website: createSelectorFromImageSrc(['TcXGKbk-rV1', 'xVA3lB-GVep', 'EaDvTjOwxIV', 'aE7VLFYMYdl', '_E0siE7VRxg', 'ZWx4MakmUd4', 'D9kpGIZvg_a']),
-    categories: createSelectorFromImageSrc(['Knsy-moHXi6', 'LwDWwC1d0Rx', '3OfQvJdYD_W', 'Esxx6rJcLfG', 'Ae8V14AHXF3', 'I5oOkD-Jgg9']),
-    email: createSelectorFromImageSrc(['C1eWXyukMez', 'vKDzW_MdhyP', 'vPTKpTJr2Py', '7wycyFqCurV', 'usNPpfkTtic']),
-    info: createSelectorFromImageSrc(['u_owK2Sz5n6', 'fTt3W6Nw8z-', 'ufx6pe0BYZ9', 'nUK82gYKq3c', 'EXVJNaeBMtn']), // about / founded
-    impressum: createSelectorFromImageSrc(['7Pg05R2u_QQ', 'xJ79lPp3fxx', 'W1Gz3-6Jba9']),
-    instagram: createSelectorFromImageSrc(['EZj5-1P4vhh', 'kupnBwrQuQt', '4BDZkGZPYV7']),
-    twitter: createSelectorFromImageSrc(['IP-E0-f5J0m', '4D5dB8JnGdq', 'ITwSn0piq6L']),
-    youtube: createSelectorFromImageSrc(['MyCpzAb80U1']),
-    overview: createSelectorFromImageSrc(['uAsvCr33XaU', 'J7QgCgbppF8']),
-    awards: createSelectorFromImageSrc(['rzXNHRgEfui', 'catvAig7x2x']),
-    mission: createSelectorFromImageSrc(['z-wfU5xgk6Z', '3vccp1jK8fn']),
-    address: createSelectorFromImageSrc(['h2e1qHNjIzG', 'ya-WX5CZARc']),
-    phone: createSelectorFromImageSrc(['6oGknb-0EsE', 'znYEAkatLCe', 'BaiUsFiMGWy', 'BkWgVZPGfa0']),
-    priceRange: createSelectorFromImageSrc(['q-WY9vrfkFZ', 'cAfaJdw2ZpN', 'RoNYAkqnZi0']),
-    products: createSelectorFromImageSrc(['bBMZ-3vnEih', '9gnPGIXZf0x', 'kqozvTg_ESH']),
-    transit: createSelectorFromImageSrc(['uQHLMTQ0fUS', 'hHYECN5fVxU']),
-    payment: createSelectorFromImageSrc(['Dx9c291MaDt', '8qES65kbIT8']),
+export const imageSelectors = (Object.keys(imageIcons) as ImageSelectorField[]).reduce((out, field) => {
+    out[field] = createSelectorFromImageSrc(imageIcons[field]);
+    return out;
+}, {} as Record<ImageSelectorField, ReturnType<typeof createSelectorFromImageSrc>>);
+
+/**
+ * Icon names of each field from `selectorOverrides`, on top of the built-in ones
+ */
+const iconOverrides = new Map<ImageSelectorField, string[]>();
+
+/**
+ * CSS selectors that can't be parsed, or that end without the element
+ * after a combinator, like "div >"
+ */
+export const findInvalidSelectors = (selectors: string[]) => selectors.filter((selector) => {
+    try {
+        return parseCss(selector).some((tokens) => !tokens.length || isTraversal(tokens[tokens.length - 1]));
+    } catch (e) {
+        return true;
+    }
+});
+
+/**
+ * Add or replace the icon names of the image selectors, and replace the
+ * CSS selectors, at startup. Everything that isn't overridden keeps the
+ * built-in values, and applying again replaces the earlier overrides.
+ * The CSS selectors are checked with a CSS parser
+ *
+ * @throws {Error} When any override is invalid, nothing is applied
+ */
+export const applySelectorOverrides = (overrides: SelectorOverrides) => {
+    const errors: string[] = [];
+    const isObject = (value: any) => !!value && typeof value === 'object' && !Array.isArray(value);
+    const isIconList = (value: any) => Array.isArray(value) && value.every((name) => typeof name === 'string' && /^[\w-]+$/.test(name));
+
+    if (!isObject(overrides)) {
+        throw new Error('Selector overrides must be an object with "icons" and / or "css"');
+    }
+
+    for (const key of Object.keys(overrides)) {
+        if (!['icons', 'css'].includes(key)) {
+            errors.push(`Unknown "${key}", must be "icons" or "css"`);
+        }
+    }
+
+    for (const [field, icons] of Object.entries(overrides.icons ?? {})) {
+        if (!(field in imageIcons)) {
+            errors.push(`Unknown icon field "${field}", must be one of ${Object.keys(imageIcons).join(', ')}`);
+        } else if (!isObject(icons) || (!icons.add && !icons.replace)) {
+            errors.push(`Icons of "${field}" must have "add" and / or "replace"`);
+        } else if ((icons.add && !isIconList(icons.add)) || (icons.replace && (!isIconList(icons.replace) || !icons.replace.length))) {
+            errors.push(`Icons of "${field}" must be non-empty lists of icon names, like "6oGknb-0EsE"`);
+        }
+    }
+
+    for (const [key, selector] of Object.entries(overrides.css ?? {})) {
+        if (!(key in CSS_SELECTORS)) {
+            errors.push(`Unknown CSS selector "${key}", must be one of ${Object.keys(CSS_SELECTORS).join(', ')}`);
+        } else if (typeof selector !== 'string' || !selector.trim()) {
+            errors.push(`CSS selector "${key}" must be a non-empty string`);
+        }
+    }
+
+    const selectors = Object.values(overrides.css ?? {}).filter((selector) => typeof selector === 'string' && selector.trim());
+
+    for (const selector of findInvalidSelectors(selectors)) {
+        errors.push(`CSS selector "${selector}" isn't valid`);
+    }
+
+    if (errors.length) {
+        throw new Error(`Invalid selector overrides:\n${errors.join('\n')}`);
+    }
+
+    iconOverrides.clear();
+
+    for (const [field, { add = [], replace }] of Object.entries(overrides.icons ?? {}) as Array<[ImageSelectorField, SelectorIconOverride]>) {
+        iconOverrides.set(field, uniqueNonEmptyArray([...(replace ?? imageIcons[field]), ...add]));
+    }
+
+    // replaced icons aren't known anymore
+    knownIcons.clear();
+
+    for (const field of Object.keys(imageIcons) as ImageSelectorField[]) {
+        imageSelectors[field] = createSelectorFromImageSrc(iconOverrides.get(field) ?? imageIcons[field]);
+    }
+
+    cssOverrides.clear();
+
+    for (const [key, selector] of Object.entries(overrides.css ?? {}) as Array<[CssSelectorKey, string]>) {
+        cssOverrides.set(key, selector);
+    }
+
+    return {
+        icons: [...iconOverrides.keys()],
+        css: [...cssOverrides.keys()],
+    };
 };
 
 /**
@@ -399,12 +621,12 @@ export const pageSelectors = {
         });
     }),
     // eslint-disable-next-line max-len
-    verified: createPageSelector('#msite-pages-header-contents > div:not([class]):not([id]) > div:not([class]):not([id])', 'mobilePageHeader', async (els) => {
+    verified: createPageSelector('#msite-pages-header-contents > div:not([class]):not([id]) > div:not([class]):not([id])', 'verified', async (els) => {
         if (!els.length) {
             return;
         }
 
-        return !!(await els[0].$(CSS_SELECTORS.VERIFIED));
+        return !!(await els[0].$(cssSelector('VERIFIED')));
     }),
     messenger: createPageSelector('a[href^="https://m.me"]', 'messenger', async (els) => {
         if (!els.length) {
@@ -413,8 +635,33 @@ export const pageSelectors = {
 
         return els[0].evaluate(async (el) => (el as HTMLLinkElement).href);
     }),
+    // numeric page id, from the app link meta or the data-ft payload of the page header,
+    // the posts on the page can be shared from other pages
+    pageId: createPageSelector('meta[property="al:android:url"],#msite-pages-header-contents [data-ft*="page_id"]', 'pageId', async (els) => {
+        if (!els.length) {
+            return null;
+        }
+
+        const [pageId] = await evaluateFilterMap(els, async (el) => {
+            const content = el.getAttribute('content');
+
+            if (content) {
+                return content.match(/^fb:\/\/(?:page|profile)\/(\d+)/)?.[1];
+            }
+
+            try {
+                const { page_id } = JSON.parse(el.getAttribute('data-ft') ?? '{}');
+
+                return page_id ? `${page_id}` : undefined;
+            } catch (e) {
+                return undefined;
+            }
+        });
+
+        return pageId ?? null;
+    }),
     // returns LD+JSON page information
-    ld: createPageSelector(CSS_SELECTORS.LDJSON, 'ld', async (els) => {
+    ld: createPageSelector(() => cssSelector('LDJSON'), 'ld', async (els) => {
         if (!els.length) {
             return [] as FbLocalBusiness[];
         }
@@ -430,7 +677,7 @@ export const pageSelectors = {
         });
     }),
     // get metadata from posts
-    posts: createPageSelector(CSS_SELECTORS.POST_TIME, 'posts', async (els) => {
+    posts: createPageSelector(() => cssSelector('POST_TIME'), 'posts', async (els) => {
         return evaluateFilterMap(els, async (el) => {
             const article = el.closest<HTMLDivElement>('article');
 
@@ -554,6 +801,24 @@ export const pageSelectors = {
     }),
 };
 
+/**
+ * Turn a profile.php?id=123 url into the numeric page url, like /123,
+ * since the id would be lost along with the query string
+ */
+export const profileToPageUrl = (url: string) => {
+    const parsedUrl = new URL(url);
+    const id = parsedUrl.searchParams.get('id');
+
+    if (!parsedUrl.pathname.endsWith('/profile.php') || !id) {
+        return url;
+    }
+
+    parsedUrl.pathname = `/${id}`;
+    parsedUrl.searchParams.delete('id');
+
+    return parsedUrl.toString();
+};
+
 /**
  * Takes any Facebook URL and create a page mobile version of it.
  *
@@ -566,7 +831,7 @@ export const pageSelectors = {
  *  whitelist, contains parameters that should not be deleted.
  */
 export const normalizeToMobilePageUrl = (url: string, filterParams: string[] | boolean = false): string => {
-    const parsedUrl = new URL(url);
+    const parsedUrl = new URL(profileToPageUrl(url));
 
     if (!parsedUrl.pathname.startsWith('/pg')) {
         parsedUrl.pathname = `/pg/${parsedUrl.pathname.split(/\//g).filter(s => s).join('/')}`;
@@ -596,7 +861,7 @@ export const normalizeToMobilePageUrl = (url: string, filterParams: string[] | b
  * Take any URL and make a properly formed page url.
  */
 export const normalizeOutputPageUrl = (url: string) => {
-    const parsedUrl = new URL(url);
+    const parsedUrl = new URL(profileToPageUrl(url));
 
     parsedUrl.protocol = 'https:';
     parsedUrl.hostname = DESKTOP_HOST;
@@ -609,6 +874,41 @@ export const normalizeOutputPageUrl = (url: string) => {
     return parsedUrl.toString();
 };
 
+/**
+ * Exposes `window.unc` to the page, that removes the classes and
+ * styles from an element and its children, that usually unhides them
+ */
+export const exposeUnc = async (page: Page) => {
+    await page.exposeFunction('unc', (element?: HTMLElement) => {
+        try {
+            // weird bugs happen in this function, sometimes the dom element has no querySelectorAll for
+            // unknown reasons
+            if (!element) {
+                return;
+            }
+
+            element.className = '';
+            if (typeof element.removeAttribute === 'function') {
+                // weird bug that sometimes removeAttribute isn't a function?
+                element.removeAttribute('style');
+            }
+
+            if (typeof element.querySelectorAll === 'function') {
+                for (const el of [...element.querySelectorAll<HTMLElement>('*')]) {
+                    el.className = ''; // removing the classes usually unhides
+
+                    if (typeof element.removeAttribute === 'function') {
+                        el.removeAttribute('style');
+                    }
+                }
+            }
+        } catch (e) {
+            // the element is left as it is, the content is still read
+            log.debug('unc', { message: e.message });
+        }
+    });
+};
+
 /**
  * Sets the cookie on the page to the selected locale
  */
@@ -625,16 +925,39 @@ export const setLanguageCodeToCookie = async (language: string, page: Page) => {
 };
 
 /**
- * Workaround the /photos/ url
+ * Get the post id from /posts/ or story_fbid urls
  */
-export const photoToPost = (url: string) => {
-    const matches = `${url}`.match(/\/photos\/a\.(\d+)/);
+export const extractPostIdFromUrl = (url: string) => {
+    const parsed = new URL(url, DESKTOP_ADDRESS);
+
+    return parsed.searchParams.get('story_fbid')
+        || parsed.pathname.match(/\/posts\/(\d+)/)?.[1]
+        || null;
+};
 
-    if (matches?.[1]) {
-        return storyFbToDesktopPermalink({ url, postId: matches[1] })?.toString();
+/**
+ * Get the video id from /videos/, /reel/ or watch urls
+ */
+export const extractVideoId = (url?: string | null) => {
+    if (!url) {
+        return null;
     }
 
-    return url;
+    const parsed = new URL(url, DESKTOP_ADDRESS);
+
+    return parsed.pathname.match(/\/(?:videos|reel)\/(?:[^/]+\/)?(\d+)/)?.[1]
+        || parsed.searchParams.get('v')
+        || null;
+};
+
+/**
+ * Posts and videos are the same item when they share the id, like
+ * video posts that are also on the videos tab
+ */
+export const isSameVideo = (post: Partial<FbPost>, videoId: string) => {
+    return extractVideoId(post.postVideo?.url) === videoId
+        || extractVideoId(post.postUrl) === videoId
+        || extractPostIdFromUrl(post.postUrl ?? '') === videoId;
 };
 
 /**
@@ -658,10 +981,18 @@ export const getUrlLabel = (url: string): FbLabel => {
             return LABELS.LISTING;
         }
 
-        if (/\/photos\/a\.\d+/.test(parsedUrl.pathname)) {
+        // /page/photos/a.1/2/, the new layout /page/photos/2/, and /photo.php?fbid=2
+        if (/\/photos\/(?:a\.\d+\/)?\d+/.test(parsedUrl.pathname)
+            || (/^\/photo(?:\.php|\/)/.test(parsedUrl.pathname) && /^\d+$/.test(parsedUrl.searchParams.get('fbid') ?? ''))) {
             return LABELS.PHOTO;
         }
 
+        // /page/photos/a.1/, /page/albums/1/ and /media/set/?set=a.1
+        if (/\/(?:photos\/a\.|albums\/)\d+/.test(parsedUrl.pathname)
+            || (parsedUrl.pathname.startsWith('/media/set') && /^a\.\d+/.test(parsedUrl.searchParams.get('set') ?? ''))) {
+            return LABELS.ALBUM;
+        }
+
         if (/\/posts\/\d+/.test(parsedUrl.pathname)) {
             return LABELS.POST;
         }
@@ -887,7 +1218,7 @@ export const scrollUntil = async (page: Page, { doScroll = () => true, sleepMill
 export const clickSeeMore = async (page: Page) => {
     let clicks = 0;
 
-    for (const seeMore of await page.$$(CSS_SELECTORS.SEE_MORE)) {
+    for (const seeMore of await page.$$(cssSelector('SEE_MORE'))) {
         try {
             if (page.isClosed()) {
                 break;
@@ -974,14 +1305,19 @@ const parseTimeUnit = (value: any) => {
         return null;
     }
 
-    if (value === 'today' || value === 'yesterday') {
-        return (value === 'today' ? moment() : moment().subtract(1, 'day')).startOf('day');
+    const days = ({ yesterday: -1, today: 0, tomorrow: 1 } as Record<string, number>)[value];
+
+    if (days !== undefined) {
+        return moment().add(days, 'day').startOf('day');
     }
 
-    const [, number, unit] = `${value}`.match(/^(\d+)\s?(minute|second|day|hour|month|year|week)s?$/i) || [];
+    // "3 days" is in the past, "in 3 days" is in the future
+    const [, future, number, unit] = `${value}`.match(/^(in\s)?(\d+)\s?(minute|second|day|hour|month|year|week)s?$/i) || [];
 
     if (+number && unit) {
-        return moment().subtract(+number, unit as any);
+        return future
+            ? moment().add(+number, unit as any)
+            : moment().subtract(+number, unit as any);
     }
 
     return moment(value);
@@ -1352,3 +1688,149 @@ export const extendFunction = async <RAW, INPUT extends Record<string, any>, MAP
         }
     };
 };
+
+/**
+ * Compare the tracked profile fields between the last known
+ * profile and the current one. Arrays are compared regardless of order
+ */
+export const diffProfile = (previous: Partial<FbPage>, current: Partial<FbPage>, date = new Date().toISOString()) => {
+    const normalize = (value: any) => JSON.stringify(Array.isArray(value) ? [...value].sort() : value ?? null);
+
+    return TRACKED_PROFILE_FIELDS.reduce((changes, field) => {
+        if (normalize(previous[field]) !== normalize(current[field])) {
+            changes.push({
+                field,
+                oldValue: previous[field] ?? null,
+                newValue: current[field] ?? null,
+                date,
+            });
+        }
+
+        return changes;
+    }, [] as FbProfileChange[]);
+};
+
+/**
+ * Merge the records of the same page that was reached from different
+ * urls. Fields missing on the target are taken from the source, posts,
+ * reviews, services, events, albums, photos and videos are combined, and every url is kept on `aliases`
+ */
+export const mergePages = (target: Partial<FbPage>, source: Partial<FbPage>): Partial<FbPage> => {
+    const isEmpty = (value: any) => value === undefined || value === null || value === '' || (Array.isArray(value) && !value.length);
+    const merged: Record<string, any> = { ...target };
+
+    for (const [key, value] of Object.entries(source)) {
+        if (isEmpty(merged[key])) {
+            merged[key] = value;
+        }
+    }
+
+    const postUrls = new Set((target.posts ?? []).map(({ postUrl }) => postUrl));
+    const reviewUrls = new Set((target.reviews?.reviews ?? []).map(({ url }) => url).filter((url) => url));
+    const serviceTitles = new Set((target.services ?? []).map(({ title }) => title));
+    const eventUrls = new Set((target.events ?? []).map(({ url }) => url));
+    const albumIds = new Set((target.albums ?? []).map(({ id }) => id));
+    const photoIds = new Set((target.photos ?? []).map(({ id }) => id));
+    const videoIds = new Set((target.videos ?? []).map(({ id }) => id));
+
+    return {
+        ...merged,
+        aliases: uniqueNonEmptyArray([
+            ...(target.aliases ?? []),
+            target.pageUrl,
+            ...(source.aliases ?? []),
+            source.pageUrl,
+        ]),
+        posts: [
+            ...(target.posts ?? []),
+            ...(source.posts ?? []).filter(({ postUrl }) => !postUrls.has(postUrl)),
+        ],
+        services: [
+            ...(target.services ?? []),
+            ...(source.services ?? []).filter(({ title }) => !serviceTitles.has(title)),
+        ],
+        events: [
+            ...(target.events ?? []),
+            ...(source.events ?? []).filter(({ url }) => !eventUrls.has(url)),
+        ],
+        albums: [
+            ...(target.albums ?? []),
+            ...(source.albums ?? []).filter(({ id }) => !albumIds.has(id)),
+        ],
+        photos: [
+            ...(target.photos ?? []),
+            ...(source.photos ?? []).filter(({ id }) => !photoIds.has(id)),
+        ],
+        videos: [
+            ...(target.videos ?? []),
+            ...(source.videos ?? []).filter(({ id }) => !videoIds.has(id)),
+        ],
+        reviews: {
+            average: target.reviews?.average ?? source.reviews?.average ?? null,
+            count: target.reviews?.count ?? source.reviews?.count ?? null,
+            reviews: [
+                ...(target.reviews?.reviews ?? []),
+                ...(source.reviews?.reviews ?? []).filter(({ url }) => !url || !reviewUrls.has(url)),
+            ],
+        },
+    };
+};
+
+/**
+ * Creates the value once per language, for the parsers
+ * that build many Intl formatters
+ */
+export const memoizeByLanguage = <T>(create: (language: string) => T) => {
+    const created = new Map<string, T>();
+
+    return (language: string): T => {
+        if (!created.has(language)) {
+            created.set(language, create(language));
+        }
+
+        return created.get(language)!;
+    };
+};
+
+/**
+ * The Intl locale for the selected language
+ */
+export const toIntlLocale = (language: string) => {
+    const locale = INTL_LOCALES[language] ?? language;
+
+    try {
+        return Intl.DateTimeFormat.supportedLocalesOf(locale).length ? locale : 'en-US';
+    } catch (e) {
+        return 'en-US';
+    }
+};
+
+/**
+ * Zero of each Unicode block of decimal digits, like Arabic-Indic
+ * and Devanagari, that are used instead of 0-9 in some languages
+ */
+const DIGIT_ZEROS = [0x660, 0x6F0, 0x7C0, 0x966, 0x9E6, 0xA66, 0xAE6, 0xB66, 0xBE6, 0xC66, 0xCE6, 0xD66, 0xDE6, 0xE50, 0xED0, 0xF20, 0x1040, 0x1090, 0x17E0, 0x1810, 0xFF10];
+
+/**
+ * Replace digits from other scripts with 0-9
+ */
+export const toAsciiDigits = (text: string) => {
+    return text.replace(/\p{Nd}/gu, (digit) => {
+        const code = digit.codePointAt(0)!;
+        const zero = DIGIT_ZEROS.find((z) => code >= z && code < z + 10);
+
+        return zero === undefined ? digit : `${code - zero}`;
+    });
+};
+
+/**
+ * Lower case, without accents, with 0-9 digits and plain spaces,
+ * for matching localized text
+ */
+export const normalizeLocaleText = (text: string) => toAsciiDigits(text)
+    .toLocaleLowerCase()
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .normalize('NFC')
+    .replace(/[\u200e\u200f]/g, '')
+    .replace(/[\u00a0\u202f]/g, ' ');
@@ -0,0 +1,184 @@
+import Apify from 'apify';
+
+const { log } = Apify.utils;
+
+export type SelectorGroup = 'imageSelectors' | 'pageSelectors';
+
+interface SelectorStats {
+    hits: number;
+    misses: number;
+    /**
+     * The last `DRIFT_WINDOW` results, true for hits
+     */
+    recent: boolean[];
+    drifted: boolean;
+}
+
+export interface SelectorHealthReport {
+    date: string;
+    selectors: Record<string, {
+        hits: number;
+        misses: number;
+        hitRate: number;
+        previousHitRate: number | null;
+        drifted: boolean;
+    }>;
+    unknownIcons: Array<{ name: string, count: number, samples: string[] }>;
+}
+
+const selectors = new Map<string, SelectorStats>();
+const unknownIcons = new Map<string, { count: number, samples: Set<string> }>();
+
+/**
+ * Only tracked when `selectorHealth` is enabled, by `selectorHealthReporter`
+ */
+let tracking = false;
+
+/**
+ * Results compared with the earlier hit rate
+ */
+const DRIFT_WINDOW = 50;
+
+/**
+ * Optional fields, like email or hours, are missing from many pages,
+ * so only selectors that usually match can drift
+ */
+const DRIFT_MIN_RATE = 0.2;
+
+/**
+ * A selector drifted when its hit rate dropped to a quarter of what it was
+ */
+const isDrift = (rate: number, earlierRate: number) => earlierRate >= DRIFT_MIN_RATE && rate < earlierRate / 4;
+
+/**
+ * Count the selector as found or not found. Selectors whose hit rate
+ * over the last results dropped from the earlier one are reported once
+ */
+export const recordSelector = (group: SelectorGroup, name: string, hit: boolean) => {
+    if (!tracking) {
+        return;
+    }
+
+    const key = `${group}.${name}`;
+    const stats = selectors.get(key) ?? { hits: 0, misses: 0, recent: [], drifted: false };
+
+    if (hit) {
+        stats.hits++;
+    } else {
+        stats.misses++;
+    }
+
+    stats.recent.push(hit);
+
+    if (stats.recent.length > DRIFT_WINDOW) {
+        stats.recent.shift();
+    }
+
+    const recentHits = stats.recent.filter((recent) => recent).length;
+    const earlier = stats.hits + stats.misses - stats.recent.length;
+
+    if (!stats.drifted && stats.recent.length === DRIFT_WINDOW && earlier >= DRIFT_WINDOW
+        && isDrift(recentHits / DRIFT_WINDOW, (stats.hits - recentHits) / earlier)) {
+        stats.drifted = true;
+
+        log.warning(`"${key}" selector matched ${recentHits} of the last ${DRIFT_WINDOW} times, less than it used to. Check the SELECTOR_HEALTH report`);
+    }
+
+    selectors.set(key, stats);
+};
+
+/**
+ * An icon next to a field text that isn't known by any image selector
+ */
+export const recordUnknownIcon = (name: string, text: string) => {
+    if (!tracking) {
+        return;
+    }
+
+    const icon = unknownIcons.get(name) ?? { count: 0, samples: new Set<string>() };
+
+    icon.count++;
+
+    if (icon.samples.size < 5) {
+        icon.samples.add(text);
+    }
+
+    unknownIcons.set(name, icon);
+};
+
+/**
+ * Writes the hit and miss rates of the selectors to the `SELECTOR_HEALTH`
+ * record, along with the unknown icons. The report is also kept on a
+ * named key-value store, so selectors that matched on the last run
+ * but don't match anymore are flagged as drifted.
+ *
+ * When not enabled, the selectors aren't tracked and nothing is written
+ */
+export const selectorHealthReporter = async ({ enabled, name }: {
+    enabled: boolean;
+    name: string;
+}) => {
+    tracking = enabled;
+
+    const kv = enabled ? await Apify.openKeyValueStore(name) : null;
+    const previous = await kv?.getValue('SELECTOR_HEALTH') as SelectorHealthReport | null;
+
+    const report = (): SelectorHealthReport => {
+        const rate = (hits: number, misses: number) => (hits + misses ? +(hits / (hits + misses)).toFixed(3) : 0);
+
+        return {
+            date: new Date().toISOString(),
+            selectors: [...selectors].reduce((out, [key, { hits, misses, drifted }]) => {
+                const previousHitRate = previous?.selectors?.[key]?.hitRate ?? null;
+
+                out[key] = {
+                    hits,
+                    misses,
+                    hitRate: rate(hits, misses),
+                    previousHitRate,
+                    drifted: drifted || (hits + misses >= DRIFT_WINDOW && previousHitRate !== null && isDrift(rate(hits, misses), previousHitRate)),
+                };
+
+                return out;
+            }, {} as SelectorHealthReport['selectors']),
+            unknownIcons: [...unknownIcons]
+                .map(([icon, { count, samples }]) => ({ name: icon, count, samples: [...samples] }))
+                .sort((a, b) => b.count - a.count),
+        };
+    };
+
+    return {
+        report,
+        /**
+         * Saves the current report, and for the next runs when `final`
+         */
+        async persistState(final = false) {
+            if (!kv) {
+                return;
+            }
+
+            const current = report();
+            const drifted = Object.keys(current.selectors).filter((key) => current.selectors[key].drifted);
+
+            await Apify.setValue('SELECTOR_HEALTH', current);
+
+            if (final) {
+                if (drifted.length || current.unknownIcons.length) {
+                    log.warning('Some selectors might need to be updated', {
+                        drifted,
+                        unknownIcons: current.unknownIcons.slice(0, 10).map((icon) => icon.name),
+                    });
+                }
+
+                // keep the rates of selectors that weren't used on this run
+                await kv.setValue('SELECTOR_HEALTH', {
+                    ...current,
+                    selectors: {
+                        ...previous?.selectors,
+                        ...current.selectors,
+                    },
+                });
+            }
+        },
+    };
+};
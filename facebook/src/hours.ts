@@ -0,0 +1,217 @@
+import escapeStringRegexp = require('escape-string-regexp');
+import { ALWAYS_OPEN_PHRASES, CLOSED_PHRASES } from './constants';
+import { normalizeLocaleText as normalize, toIntlLocale, memoizeByLanguage } from './functions';
+import type { FbHours, FbHoursDay, FbHoursInterval, FbWeekday } from './definitions';
+
+export const WEEKDAYS: FbWeekday[] = ['monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday', 'sunday'];
+
+/**
+ * Weekday names and AM / PM of the language, taken from Intl, along
+ * with the English ones, since some pages aren't fully translated
+ */
+const localeNames = (language: string) => {
+    const days = new Map<string, number>();
+    const periods = new Map<string, 'am' | 'pm'>([
+        ['am', 'am'],
+        ['a.m.', 'am'],
+        ['pm', 'pm'],
+        ['p.m.', 'pm'],
+    ]);
+
+    for (const locale of [toIntlLocale(language), 'en-US']) {
+        for (const weekday of ['long', 'short'] as const) {
+            const format = new Intl.DateTimeFormat(locale, { weekday, timeZone: 'UTC' });
+
+            WEEKDAYS.forEach((_, day) => {
+                // 2021-01-04 is a monday
+                const name = normalize(format.format(new Date(Date.UTC(2021, 0, 4 + day, 12)))).trim();
+
+                days.set(name, day);
+                days.set(name.replace(/\.$/, ''), day);
+            });
+        }
+
+        const hour12 = new Intl.DateTimeFormat(locale, { hour: 'numeric', hour12: true, timeZone: 'UTC' });
+
+        for (const [hour, period] of [[9, 'am'], [21, 'pm']] as const) {
+            const part = hour12.formatToParts(new Date(Date.UTC(2021, 0, 4, hour))).find(({ type }) => type === 'dayPeriod');
+
+            if (part) {
+                periods.set(normalize(part.value).trim(), period);
+            }
+        }
+    }
+
+    // longest first, so "mon" doesn't win over "monday"
+    const byLength = (a: string, b: string) => b.length - a.length;
+    const alternation = (names: string[]) => names.filter((name) => name).sort(byLength).map(escapeStringRegexp).join('|');
+
+    return {
+        days,
+        periods,
+        dayPattern: new RegExp(`(?<![\\p{L}\\p{M}])(${alternation([...days.keys()])})(?![\\p{L}\\p{M}])`, 'uy'),
+        timePattern: new RegExp(
+            `(?:(${alternation([...periods.keys()])})\\s*)?(\\d{1,2})(?:\\s?[:.h時시]\\s?(\\d{2}))?(?:[\\p{L}.]{0,2} *(?:[\\p{L}.]{1,3} )?(${alternation([...periods.keys()])})(?![\\p{L}]))?`,
+            'uy',
+        ),
+    };
+};
+
+interface Time {
+    hour: number;
+    minute: number;
+    explicit: boolean;
+}
+
+/**
+ * 24-hour HH:mm
+ */
+const formatTime = ({ hour, minute }: Time) => `${`${hour}`.padStart(2, '0')}:${`${minute}`.padStart(2, '0')}`;
+
+/**
+ * Creates the opening hours parser for the language. Understands lines like
+ * "Monday 9:00 AM - 5:00 PM", "Mon - Fri 09:00-12:00, 13:00-18:00",
+ * "Sat Open 24 hours", "Sun Closed" and "Always open", in any order.
+ * Days that aren't understood are left out, since they're unknown.
+ * Parsers are created once per language
+ */
+export const createHoursParser = memoizeByLanguage((language) => {
+    const { days, periods, dayPattern, timePattern } = localeNames(language);
+    const alwaysOpenPhrases = ALWAYS_OPEN_PHRASES.map(normalize);
+    // compared with the letters of the day text only, without spaces or marks
+    const closedPhrases = [...CLOSED_PHRASES[toIntlLocale(language).split('-')[0]] ?? [], ...CLOSED_PHRASES.en]
+        .map((phrase) => normalize(phrase).replace(/[^\p{L}\p{N}]/gu, ''));
+
+    /**
+     * Returns null when the text doesn't look like opening hours
+     */
+    return (raw: string): FbHours | null => {
+        const text = normalize(raw);
+        const groups: Array<{ days: number[], times: Time[], text: string }> = [];
+        let afterDash = false;
+        let index = 0;
+
+        while (index < text.length) {
+            dayPattern.lastIndex = index;
+            const dayMatch = dayPattern.exec(text);
+
+            if (dayMatch) {
+                const day = days.get(dayMatch[1])!;
+                const current = groups[groups.length - 1];
+
+                if (current && !current.times.length && !current.text.trim()) {
+                    if (afterDash) {
+                        // range, like mon - fri
+                        const from = current.days[current.days.length - 1];
+
+                        for (let next = (from + 1) % 7; next !== (day + 1) % 7; next = (next + 1) % 7) {
+                            current.days.push(next);
+                        }
+                    } else {
+                        // list, like mon, wed
+                        current.days.push(day);
+                    }
+                } else {
+                    groups.push({ days: [day], times: [], text: '' });
+                }
+
+                afterDash = false;
+                index += dayMatch[0].length;
+                continue; // eslint-disable-line no-continue
+            }
+
+            timePattern.lastIndex = index;
+            const timeMatch = groups.length ? timePattern.exec(text) : null;
+
+            if (timeMatch && +timeMatch[2] <= 24 && +(timeMatch[3] ?? 0) < 60) {
+                const period = periods.get(timeMatch[1] ?? timeMatch[4] ?? '');
+                let hour = +timeMatch[2];
+
+                if (period === 'pm' && hour < 12) {
+                    hour += 12;
+                } else if (period === 'am' && hour === 12) {
+                    hour = 0;
+                }
+
+                groups[groups.length - 1].times.push({
+                    hour,
+                    minute: +(timeMatch[3] ?? 0),
+                    explicit: !!period || timeMatch[3] !== undefined,
+                });
+
+                afterDash = false;
+                index += timeMatch[0].length;
+                continue; // eslint-disable-line no-continue
+            }
+
+            const char = text[index];
+
+            if (/[-–—~〜]/.test(char)) {
+                afterDash = true;
+            } else if (/[\p{L}\p{N}]/u.test(char)) {
+                afterDash = false;
+
+                if (groups.length) {
+                    groups[groups.length - 1].text += char;
+                }
+            }
+
+            index++;
+        }
+
+        const hours: FbHours = {
+            alwaysOpen: alwaysOpenPhrases.some((phrase) => text.includes(phrase)),
+            days: {},
+            raw,
+        };
+
+        for (const group of groups) {
+            // a lone number is text, like "open 24 hours"
+            const times = group.times.length % 2 ? group.times.filter(({ explicit }) => explicit) : group.times;
+            const intervals: FbHoursInterval[] = [];
+
+            for (let i = 0; i + 1 < times.length; i += 2) {
+                intervals.push({
+                    open: formatTime(times[i]),
+                    close: formatTime(times[i + 1]),
+                });
+            }
+
+            const open24h = (intervals.length === 1 && intervals[0].open === '00:00' && ['00:00', '24:00'].includes(intervals[0].close))
+                || (!intervals.length && /24/.test(`${group.text} ${group.times.map(({ hour }) => hour).join(' ')}`));
+
+            const closed = !intervals.length && !open24h;
+
+            // without times, only the text saying it's closed is understood
+            if (closed && !closedPhrases.some((phrase) => group.text.includes(phrase))) {
+                continue; // eslint-disable-line no-continue
+            }
+
+            const day: FbHoursDay = {
+                closed,
+                open24h,
+                intervals: open24h ? [] : intervals,
+            };
+
+            for (const dayIndex of group.days) {
+                const weekday = WEEKDAYS[dayIndex];
+
+                hours.days[weekday] = hours.days[weekday]
+                    ? { ...day, intervals: [...hours.days[weekday]!.intervals, ...day.intervals] }
+                    : day;
+            }
+        }
+
+        const listed = Object.values(hours.days);
+
+        if (listed.length === 7 && listed.every((day) => day?.open24h)) {
+            hours.alwaysOpen = true;
+        }
+
+        if (!hours.alwaysOpen && !listed.some((day) => day?.intervals.length || day?.open24h)) {
+            return null;
+        }
+
+        return hours;
+    };
+});
@@ -1,6 +1,7 @@
 import Apify from 'apify';
+import type { Page } from 'playwright';
 import { InfoError } from './error';
-import { LABELS, CSS_SELECTORS, MOBILE_HOST } from './constants';
+import { LABELS, MOBILE_HOST, NON_PAGE_PATHS, DESKTOP_ADDRESS, EVENT_CANDIDATES } from './constants';
 import * as fns from './functions';
 import {
     getPagesFromListing,
@@ -11,12 +12,49 @@ import {
     getPostContent,
     getPostComments,
     getServices,
+    getEventUrls,
+    getEventInfo,
+    getAlbumUrls,
+    getMediaOwner,
+    getAlbum,
+    getPhotoInfo,
+    extractPhotoIds,
+    getVideoUrls,
+    getVideoInfo,
+    getRelatedPages,
     getPostInfoFromScript,
+    getPostVideo,
+    createMediaPage,
     isNotFoundPage,
     getPagesFromSearch,
 } from './page';
-import { statePersistor, emptyState } from './storage';
-import type { Schema, FbLabel, FbSection, FbPage, FbCommentsMode, FbPost } from './definitions';
+import {
+    statePersistor,
+    emptyState,
+    historyPersistor,
+    profilePersistor,
+    engagementPersistor,
+    mediaPersistor,
+    discoveryPersistor,
+} from './storage';
+import type { SectionRequest } from './storage';
+import { createOutput, openDatasets, recordLayout, stampVersion } from './output';
+import { outputValidator } from './schema';
+import { webhookSink } from './webhook';
+import { selectorHealthReporter } from './health';
+import type {
+    Schema,
+    FbLabel,
+    FbSection,
+    FbPage,
+    FbCommentsMode,
+    FbPost,
+    FbPostType,
+    FbPostVideo,
+    FbRecord,
+    FbRecordType,
+    SelectorOverrides,
+} from './definitions';
 
 import LANGUAGES = require('./languages.json');
 
@@ -34,11 +72,17 @@ const {
     proxyConfiguration,
     minMaxDates,
     resourceCache,
-    photoToPost,
     extendFunction,
     createAddPageSearch,
     overrideUserData,
     fromStartUrls,
+    extractPostIdFromUrl,
+    uniqueNonEmptyArray,
+    exposeUnc,
+    applySelectorOverrides,
+    cssSelector,
+    getPostType,
+    isSameVideo,
 } = fns;
 
 Apify.main(async () => {
@@ -54,6 +98,8 @@ Apify.main(async () => {
         maxPostDate,
         minPostDate,
         maxPostComments = 15,
+        maxCommentReplies = 0,
+        maxCommentDepth = 1,
         maxReviewDate,
         maxCommentDate,
         maxReviews = 3,
@@ -64,6 +110,20 @@ Apify.main(async () => {
         scrapeReviews = true,
         scrapePosts = true,
         scrapeServices = true,
+        scrapeEvents = false,
+        maxEvents = 10,
+        minEventDate,
+        maxEventDate,
+        scrapePhotos = false,
+        maxAlbums = 10,
+        maxPhotos = 10,
+        scrapeVideos = false,
+        maxVideos = 10,
+        minVideoDate,
+        maxVideoDate,
+        discoverPages = false,
+        maxDiscoveryDepth = 1,
+        maxDiscoveredPages = 50,
         language = 'en-US',
         sessionStorage = '',
         useStealth = false,
@@ -73,13 +133,36 @@ Apify.main(async () => {
         maxConcurrency = 20,
         searchPages = [],
         searchLimit = 10,
+        outputMode = 'PAGE',
+        incremental = false,
+        incrementalStore = 'facebook-incremental',
+        resetIncremental = false,
+        trackChanges = false,
+        trackChangesStore = 'facebook-profiles',
+        trackEngagement = false,
+        engagementStore = 'facebook-engagement',
+        engagementDays = 7,
+        validateOutput = true,
+        webhookUrl,
+        webhookHeaders,
+        webhookBatchSize = 1,
+        webhookMaxRetries = 3,
+        webhookRetryDelaySecs = 5,
+        webhookDeadLetterStore = 'facebook-webhook-dead-letter',
+        selectorHealth = false,
+        selectorHealthStore = 'facebook-selector-health',
+        selectorOverrides,
+        selectorOverridesStore,
+        fullResolutionImages = false,
+        downloadMedia = false,
+        mediaStore = 'facebook-media',
     } = input;
 
     if (debugLog) {
         log.setLevel(log.LEVELS.DEBUG);
     }
 
-    if ((!Array.isArray(startUrls) || !startUrls.length) && !searchPages?.length) {
+    if ((!Array.isArray(startUrls) || !startUrls.length) && !searchPages?.length && !trackEngagement) {
         throw new Error('You must provide the "startUrls" input');
     }
 
@@ -87,6 +170,10 @@ Apify.main(async () => {
         throw new Error('You must provide a finite number for "maxPostComments" input');
     }
 
+    if (!Number.isFinite(maxCommentReplies) || !Number.isFinite(maxCommentDepth)) {
+        throw new Error('You must provide a finite number for "maxCommentReplies" and "maxCommentDepth" inputs');
+    }
+
     const proxyConfig = await proxyConfiguration({
         proxyConfig: input.proxyConfiguration,
         hint: ['RESIDENTIAL'],
@@ -115,11 +202,65 @@ Apify.main(async () => {
 
     log.info(`Will use ${handlePageTimeoutSecs}s timeout for page`);
 
+    if (!['PAGE', 'STREAM', 'NORMALIZED'].includes(outputMode)) {
+        throw new Error(`Invalid "outputMode" input "${outputMode}"`);
+    }
+
+    if (webhookUrl && !/^https?:\/\//.test(webhookUrl)) {
+        throw new Error(`Invalid "webhookUrl" input "${webhookUrl}", must be an http or https url`);
+    }
+
     if (!(language in LANGUAGES)) {
         throw new Error(`Selected language "${language}" isn't supported`);
     }
 
-    const { map, state, persistState } = await statePersistor();
+    if (selectorOverrides || selectorOverridesStore) {
+        const stored = selectorOverridesStore
+            ? await (await Apify.openKeyValueStore(selectorOverridesStore)).getValue('SELECTOR_OVERRIDES') as SelectorOverrides | null
+            : null;
+
+        // input takes precedence over the stored record
+        const overridden = applySelectorOverrides({
+            ...stored,
+            ...selectorOverrides,
+            icons: { ...stored?.icons, ...selectorOverrides?.icons },
+            css: { ...stored?.css, ...selectorOverrides?.css },
+        });
+
+        log.info('Using selector overrides', overridden);
+    }
+
+    const { map, state, persistState, pending, resolve, identify, deferSection, homeScraped } = await statePersistor();
+    const history = await historyPersistor({
+        enabled: incremental,
+        name: incrementalStore,
+        reset: resetIncremental,
+        deferCommit: outputMode === 'PAGE',
+    });
+    const profiles = await profilePersistor({
+        enabled: trackChanges,
+        name: trackChangesStore,
+    });
+    const engagement = await engagementPersistor({
+        enabled: trackEngagement,
+        name: engagementStore,
+        days: engagementDays,
+    });
+    const media = await mediaPersistor({
+        enabled: downloadMedia,
+        name: mediaStore,
+    });
+    const discovery = await discoveryPersistor({
+        enabled: discoverPages,
+        maxPages: maxDiscoveredPages,
+    });
+    const health = await selectorHealthReporter({
+        enabled: selectorHealth,
+        name: selectorHealthStore,
+    });
+
+    Apify.events.on('persistState', () => health.persistState());
+
     const elapsed = stopwatch();
 
     const postDate = minMaxDates({
@@ -154,9 +295,44 @@ Apify.main(async () => {
         log.info(`Getting reviews from ${reviewDate.minDate.toLocaleString()} and newer`);
     }
 
+    const eventDate = minMaxDates({
+        min: minEventDate,
+        max: maxEventDate,
+    });
+
+    if (scrapeEvents && (eventDate.minDate || eventDate.maxDate)) {
+        log.info(`Getting events starting from ${eventDate.minDate?.toLocaleString() ?? 'any date'} to ${eventDate.maxDate?.toLocaleString() ?? 'any date'}`);
+    }
+
+    /**
+     * The events limit and date window of the start url
+     */
+    const eventLimits = (request: Apify.Request) => {
+        const { overriden, settings } = overrideUserData(input, request);
+
+        return {
+            max: (overriden && settings?.maxEvents) || maxEvents,
+            date: overriden && (settings?.minEventDate || settings?.maxEventDate)
+                ? minMaxDates({
+                    min: settings.minEventDate,
+                    max: settings.maxEventDate,
+                })
+                : eventDate,
+        };
+    };
+
+    const videoDate = minMaxDates({
+        min: minVideoDate,
+        max: maxVideoDate,
+    });
+
+    if (scrapeVideos && (videoDate.minDate || videoDate.maxDate)) {
+        log.info(`Getting videos published from ${videoDate.minDate?.toLocaleString() ?? 'any date'} to ${videoDate.maxDate?.toLocaleString() ?? 'any date'}`);
+    }
+
     const requestQueue = await Apify.openRequestQueue();
 
-    if (!(startUrls?.length) && !(searchPages?.length)) {
+    if (!(startUrls?.length) && !(searchPages?.length) && !trackEngagement) {
         throw new Error('No requests were loaded from startUrls');
     }
 
@@ -164,41 +340,90 @@ Apify.main(async () => {
         proxyConfig.countryCode = countryCode ? language.split('-')?.[1] ?? 'US' : 'US';
     }
 
+    // the country of the phone numbers, when the page address doesn't tell
+    const phoneCountry = countryCode ? language.split('-')[1] : null;
+
     log.info(`Using language "${(LANGUAGES as any)[language]}" (${language})`);
 
-    const initSubPage = async (subpage: { url: string; section: FbSection, useMobile: boolean }, request: Apify.Request) => {
-        if (subpage.section === 'home') {
-            const username = extractUsernameFromUrl(subpage.url);
+    /**
+     * The section request on the url of the page it's stored under, for aliases
+     */
+    const onPage = (section: SectionRequest, username: string): SectionRequest => ({
+        ...section,
+        url: extractUsernameFromUrl(section.url) === username
+            ? section.url
+            : generateSubpagesFromUrl(`${DESKTOP_ADDRESS}/${username}`, [section.userData.sub])[1].url,
+    });
 
+    const initSubPage = async (subpage: { url: string; section: FbSection, useMobile: boolean }, request: Apify.Request, depth = 0) => {
+        const username = extractUsernameFromUrl(subpage.url);
+        const section: SectionRequest = {
+            url: subpage.url,
+            userData: {
+                override: request.userData.override,
+                label: LABELS.PAGE,
+                sub: subpage.section,
+                ref: request.url,
+                useMobile: subpage.useMobile,
+                depth,
+            },
+        };
+
+        if (subpage.section === 'home') {
             // initialize the page. if it's already initialized,
             // use the current content
             await map.append(username, async (value) => {
+                const pageUrl = normalizeOutputPageUrl(subpage.url);
+
                 return {
                     ...emptyState(),
-                    pageUrl: normalizeOutputPageUrl(subpage.url),
+                    pageUrl,
                     '#url': subpage.url,
                     '#ref': request.url,
                     ...value,
+                    aliases: uniqueNonEmptyArray([...(value?.aliases ?? []), pageUrl]),
                 };
             });
+
+            await requestQueue.addRequest(section, { forefront: true });
+        } else if (!deferSection(username, section)) {
+            // the page id is read on the home, the other sections wait for it
+            await requestQueue.addRequest(onPage(section, resolve(username)), { forefront: true });
         }
+    };
 
-        await requestQueue.addRequest({
-            url: subpage.url,
-            userData: {
-                override: request.userData.override,
-                label: LABELS.PAGE,
-                sub: subpage.section,
-                ref: request.url,
-                useMobile: subpage.useMobile,
-            },
-        }, { forefront: true });
+    /**
+     * The username of photos and albums, that is read from the page and
+     * initialized there when the start url didn't have it
+     *
+     * @throws {InfoError}
+     */
+    const mediaOwner = async (page: Page, request: Apify.Request): Promise<string> => {
+        if (!request.userData.username) {
+            const username = await getMediaOwner(page);
+
+            if (!username) {
+                throw new InfoError('Couldn\'t find the page of the photo', {
+                    url: request.url,
+                    namespace: 'mediaOwner',
+                });
+            }
+
+            request.userData.username = username;
+
+            await initSubPage(generateSubpagesFromUrl(`${DESKTOP_ADDRESS}/${username}`, [])[0], request);
+        }
+
+        return request.userData.username;
     };
 
     const pageInfo = [
         ...(scrapePosts ? ['posts'] : []),
         ...(scrapeReviews ? ['reviews'] : []),
         ...(scrapeServices ? ['services'] : []),
+        ...(scrapeEvents ? ['events'] : []),
+        ...(scrapePhotos ? ['photos'] : []),
+        ...(scrapeVideos ? ['videos'] : []),
     ] as FbSection[];
 
     const addPageSearch = createAddPageSearch(requestQueue);
@@ -211,7 +436,7 @@ Apify.main(async () => {
 
     for await (const request of fromStartUrls(startUrls)) {
         try {
-            let { url } = request;
+            const { url } = request;
             const urlType = getUrlLabel(url);
 
             if (urlType === LABELS.PAGE) {
@@ -229,11 +454,31 @@ Apify.main(async () => {
                         useMobile: false,
                     },
                 });
-            } else if (urlType === LABELS.POST || urlType === LABELS.PHOTO) {
-                if (LABELS.PHOTO) {
-                    url = photoToPost(url) ?? url;
-                }
+            } else if (urlType === LABELS.PHOTO || urlType === LABELS.ALBUM) {
+                const { albumId, photoId } = extractPhotoIds(url);
+                // /photo.php?fbid=2 and /media/set/?set=a.1 don't have the page,
+                // it's read from the photo page
+                const { origin, pathname } = new URL(url);
+                const alias = extractUsernameFromUrl(`${origin}${pathname}`);
+                const username = NON_PAGE_PATHS.includes(alias) ? undefined : alias;
+
+                await requestQueue.addRequest({
+                    url,
+                    userData: {
+                        override: request.userData.override,
+                        label: urlType,
+                        useMobile: false,
+                        username,
+                        albumId,
+                        postId: photoId,
+                    },
+                });
 
+                if (username) {
+                    // this is for home
+                    await initSubPage(generateSubpagesFromUrl(url, [])[0], request);
+                }
+            } else if (urlType === LABELS.POST) {
                 const username = extractUsernameFromUrl(url);
 
                 await requestQueue.addRequest({
@@ -243,6 +488,7 @@ Apify.main(async () => {
                         label: LABELS.POST,
                         useMobile: false,
                         username,
+                        postId: extractPostIdFromUrl(url),
                         canonical: storyFbToDesktopPermalink({ url, username })?.toString(),
                     },
                 });
@@ -264,24 +510,68 @@ Apify.main(async () => {
 
     log.info(`Starting with ${startUrlCount} URLs`);
 
+    // posts from previous runs are visited again only for their stats
+    const revisitedPosts = new Set<string>();
+
+    for (const post of engagement.recent()) {
+        revisitedPosts.add(post.postId);
+
+        await requestQueue.addRequest({
+            url: post.url,
+            uniqueKey: `snapshot-${post.postId}`,
+            userData: {
+                label: LABELS.POST,
+                snapshot: true,
+                useMobile: false,
+                username: post.username,
+                postId: post.postId,
+                postDate: post.postDate,
+                canonical: post.canonical,
+            },
+        });
+    }
+
+    if (trackEngagement) {
+        log.info(`Visiting ${revisitedPosts.size} posts from the last ${engagementDays} days for engagement snapshots`);
+    }
+
     const cache = resourceCache([
         /rsrc\.php/,
     ]);
 
+    const pushData = await openDatasets(outputMode);
+    const webhook = await webhookSink({
+        url: webhookUrl,
+        headers: webhookHeaders,
+        batchSize: webhookBatchSize,
+        maxRetries: webhookMaxRetries,
+        retryDelaySecs: webhookRetryDelaySecs,
+        deadLetterStore: webhookDeadLetterStore,
+    });
+    const validator = outputValidator({
+        enabled: validateOutput && outputMode === 'PAGE',
+    });
+
     const extendOutputFunction = await extendFunction({
-        map: async (data: Partial<FbPage>) => data,
-        output: async (data) => {
+        map: async (data: Partial<FbPage> | FbRecord) => data,
+        output: async (data, { recordType }) => {
             const finished = new Date().toISOString();
 
-            data["#version"] = 4; // current data format version
+            stampVersion(data, recordLayout(outputMode, recordType));
             data['#finishedAt'] = finished;
 
-            await Apify.pushData(data);
+            validator.check(data as Partial<FbPage>, recordType);
+
+            await pushData(data, recordType);
+            await webhook.add(data);
         },
         input,
         key: 'extendOutputFunction',
         helpers: {
+            recordType: 'page' as FbRecordType,
+            outputMode,
             state,
+            readPage: map.read,
             LABELS,
             fns,
             postDate,
@@ -290,12 +580,34 @@ Apify.main(async () => {
         },
     });
 
+    const output = createOutput({
+        mode: outputMode,
+        push: (data, recordType) => extendOutputFunction(data, { recordType }),
+    });
+
+    /**
+     * Output the record once per request, the retries of the
+     * request skip the records that were already output
+     */
+    const outputOnce = async (request: Apify.Request, key: string, push: () => Promise<void>) => {
+        const done: string[] = request.userData.output ?? [];
+
+        if (done.includes(key)) {
+            return;
+        }
+
+        await push();
+
+        request.userData.output = [...done, key];
+    };
+
     const extendScraperFunction = await extendFunction({
         output: async () => {}, // eslint-disable-line @typescript-eslint/no-empty-function
         key: 'extendScraperFunction',
         input,
         helpers: {
             state,
+            readPage: map.read,
             handlePageTimeoutSecs,
             cache,
             requestQueue,
@@ -374,31 +686,7 @@ Apify.main(async () => {
                 });
             });
 
-            await page.exposeFunction('unc', (element?: HTMLElement) => {
-                try {
-                    // weird bugs happen in this function, sometimes the dom element has no querySelectorAll for
-                    // unknown reasons
-                    if (!element) {
-                        return;
-                    }
-
-                    element.className = '';
-                    if (typeof element.removeAttribute === 'function') {
-                        // weird bug that sometimes removeAttribute isn't a function?
-                        element.removeAttribute('style');
-                    }
-
-                    if (typeof element.querySelectorAll === 'function') {
-                        for (const el of [...element.querySelectorAll<HTMLElement>('*')]) {
-                            el.className = ''; // removing the classes usually unhides
-
-                            if (typeof element.removeAttribute === 'function') {
-                                el.removeAttribute('style');
-                            }
-                        }
-                    }
-                } catch (e) {}
-            });
+            await exposeUnc(page);
 
             await cache(page);
 
@@ -447,7 +735,7 @@ Apify.main(async () => {
                 if (userData.useMobile) {
                     // need to do some checks if the current mobile page is the interactive one or if
                     // it has been blocked
-                    if (await page.$(CSS_SELECTORS.MOBILE_CAPTCHA)) {
+                    if (await page.$(cssSelector('MOBILE_CAPTCHA'))) {
                         throw new InfoError('Mobile captcha found', {
                             url: request.url,
                             namespace: 'captcha',
@@ -457,11 +745,11 @@ Apify.main(async () => {
 
                     try {
                         await Promise.all([
-                            page.waitForSelector(CSS_SELECTORS.MOBILE_META, {
+                            page.waitForSelector(cssSelector('MOBILE_META'), {
                                 timeout: 15000, // sometimes the page takes a while to load the responsive interactive version,
                                 state: 'attached',
                             }),
-                            page.waitForSelector(CSS_SELECTORS.MOBILE_BODY_CLASS, {
+                            page.waitForSelector(cssSelector('MOBILE_BODY_CLASS'), {
                                 timeout: 15000, // correctly detected android. if this isn't the case, the image names will change
                                 state: 'attached',
                             }),
@@ -475,7 +763,7 @@ Apify.main(async () => {
                     }
                 }
 
-                if (!userData.useMobile && await page.$(CSS_SELECTORS.DESKTOP_CAPTCHA)) {
+                if (!userData.useMobile && await page.$(cssSelector('DESKTOP_CAPTCHA'))) {
                     throw new InfoError('Desktop captcha found', {
                         url: request.url,
                         namespace: 'captcha',
@@ -494,13 +782,17 @@ Apify.main(async () => {
                 if (label !== LABELS.LISTING
                     && label !== LABELS.SEARCH
                     && label !== LABELS.POST
+                    && label !== LABELS.EVENT
+                    && label !== LABELS.ALBUM
+                    && label !== LABELS.PHOTO
+                    && label !== LABELS.VIDEO
                     && request.userData.sub !== 'posts'
                     && await isNotFoundPage(page)) {
                     request.noRetry = true;
 
                     // throw away if page is not available
                     // but inform the user of error
-                    throw new InfoError('Content not found. This either means the page doesn\'t exist, or the section itself doesn\'t exist (about, reviews, services)', {
+                    throw new InfoError('Content not found. This either means the page doesn\'t exist, or the section itself doesn\'t exist (about, reviews, services, events, photos, videos)', {
                         url: request.url,
                         namespace: 'isNotFoundPage',
                         userData,
@@ -536,22 +828,31 @@ Apify.main(async () => {
 
                     log.info(`Got ${count} pages from search "${userData.searchTerm}" in ${start() / 1000}s`);
                 } else if (userData.label === LABELS.PAGE) {
-                    const username = extractUsernameFromUrl(request.url);
+                    const alias = extractUsernameFromUrl(request.url);
+                    const username = resolve(alias);
+
+                    if (username !== alias) {
+                        log.info(`Page "${alias}" is the same as "${username}", skipping ${userData.sub}`, { url: request.url });
+                        return;
+                    }
 
                     switch (userData.sub) {
                         // Main landing page
-                        case 'home':
-                            await map.append(username, async (value) => {
+                        case 'home': {
+                            const home = await map.append(username, async (value) => {
                                 const {
+                                    pageId,
                                     likes,
                                     messenger,
                                     title,
                                     verified,
                                     ...address
-                                } = await getPageInfo(page);
+                                } = await getPageInfo(page, { language });
 
                                 return getFieldInfos(page, {
                                     ...value,
+                                    // numeric usernames are already the page id
+                                    pageId: pageId ?? value?.pageId ?? (/^\d+$/.test(username) ? username : null),
                                     likes,
                                     messenger,
                                     title,
@@ -562,16 +863,63 @@ Apify.main(async () => {
                                         ...value?.address,
                                         ...address,
                                     },
-                                });
+                                }, { language, countryCode: phoneCountry });
                             });
+
+                            const canonical = await identify(username, home?.pageId);
+
+                            for (const section of homeScraped(username)) {
+                                await requestQueue.addRequest(onPage(section, canonical), { forefront: true });
+                            }
+
+                            if (canonical !== username) {
+                                // merged into the page that has the same id, that was already output
+                                break;
+                            }
+
+                            const { changes, likesHistory } = home
+                                ? await profiles.track(username, home)
+                                : { changes: [], likesHistory: [] };
+                            const tracked = trackChanges
+                                ? await map.append(username, async (value) => ({ ...value, changes, likesHistory }))
+                                : home;
+
+                            await outputOnce(request, 'page', () => output.page({ username, page: tracked }));
+
+                            for (const change of changes) {
+                                await outputOnce(request, `change:${change.field}`, () => output.change({ username, page: tracked }, change));
+                            }
+
+                            const depth: number = userData.depth ?? 0;
+
+                            if (discoverPages && depth < maxDiscoveryDepth) {
+                                for (const { url, relation } of await getRelatedPages(page)) {
+                                    const target = extractUsernameFromUrl(url);
+
+                                    await outputOnce(request, `edge:${relation}:${target}`, () => output.edge({ username, page: tracked }, {
+                                        source: tracked?.pageUrl ?? normalizeOutputPageUrl(request.url),
+                                        target: normalizeOutputPageUrl(url),
+                                        relation,
+                                        depth: depth + 1,
+                                    }));
+
+                                    // pages that are already known don't use the budget
+                                    if (!await map.read(resolve(target)) && discovery.add(target)) {
+                                        for (const subpage of generateSubpagesFromUrl(url, pageInfo)) {
+                                            await initSubPage(subpage, request, depth + 1);
+                                        }
+                                    }
+                                }
+                            }
                             break;
+                        }
                         // Services if any
                         case 'services':
                             try {
                                 const services = await getServices(page);
 
                                 if (services.length) {
-                                    await map.append(username, async (value) => {
+                                    const current = await map.append(username, async (value) => {
                                         return {
                                             ...value,
                                             services: [
@@ -580,18 +928,87 @@ Apify.main(async () => {
                                             ],
                                         };
                                     });
+
+                                    for (const service of services) {
+                                        await output.service({ username, page: current }, service);
+                                    }
                                 }
                             } catch (e) {
                                 // it's ok to fail here, not every page has services
                                 log.debug(e.message);
                             }
                             break;
+                        // Events if any, read on their own label
+                        case 'events': {
+                            const { max, date } = eventLimits(request);
+
+                            try {
+                                await getEventUrls(page, {
+                                    // the dates are only known on the event pages
+                                    max: date.minDate || date.maxDate ? max * EVENT_CANDIDATES : max,
+                                    username,
+                                    requestQueue,
+                                    request,
+                                });
+                            } catch (e) {
+                                // it's ok to fail here, not every page has events
+                                log.debug(e.message);
+                            }
+                            break;
+                        }
+                        // Albums if any, read on their own label
+                        case 'photos': {
+                            let max = maxAlbums;
+
+                            const { overriden, settings } = overrideUserData(input, request);
+
+                            if (overriden && settings?.maxAlbums !== undefined) {
+                                max = settings.maxAlbums;
+                            }
+
+                            try {
+                                await getAlbumUrls(page, {
+                                    max,
+                                    username,
+                                    requestQueue,
+                                    request,
+                                });
+                            } catch (e) {
+                                log.debug(e.message);
+                            }
+                            break;
+                        }
+                        // Videos if any, read on their own label
+                        case 'videos': {
+                            let max = maxVideos;
+
+                            const { overriden, settings } = overrideUserData(input, request);
+
+                            if (overriden && settings?.maxVideos) {
+                                max = settings.maxVideos;
+                            }
+
+                            const pageState = await map.read(username);
+
+                            try {
+                                await getVideoUrls(page, {
+                                    max,
+                                    username,
+                                    requestQueue,
+                                    request,
+                                    isPost: (videoId) => (pageState?.posts ?? []).some((post) => isSameVideo(post, videoId)),
+                                });
+                            } catch (e) {
+                                log.debug(e.message);
+                            }
+                            break;
+                        }
                         // About if any
                         case 'about':
                             await map.append(username, async (value) => {
                                 return getFieldInfos(page, {
                                     ...value,
-                                });
+                                }, { language, countryCode: phoneCountry });
                             });
                             break;
                         // Posts
@@ -614,6 +1031,8 @@ Apify.main(async () => {
                                 }
                             }
 
+                            const known = await history.page(username);
+
                             // We don't do anything here, we enqueue posts to be
                             // read on their own phase/label
                             const postCount = await getPostUrls(page, {
@@ -623,9 +1042,11 @@ Apify.main(async () => {
                                 requestQueue,
                                 request,
                                 minPosts,
+                                isKnown: (postId) => known.hadBefore('posts', postId),
                             });
 
-                            if (maxPosts && minPosts && postCount < minPosts) {
+                            // when incremental, having no new posts is expected
+                            if (maxPosts && minPosts && postCount < minPosts && !incremental) {
                                 throw new InfoError(`Minimum post count of ${minPosts} not met, retrying...`, {
                                     namespace: 'threshold',
                                     url: page.url(),
@@ -646,7 +1067,7 @@ Apify.main(async () => {
                                 if (reviewsData) {
                                     const { average, count, reviews } = reviewsData;
 
-                                    await map.append(username, async (value) => {
+                                    const current = await map.append(username, async (value) => {
                                         return {
                                             ...value,
                                             reviews: {
@@ -660,6 +1081,10 @@ Apify.main(async () => {
                                             },
                                         };
                                     });
+
+                                    for (const review of reviews) {
+                                        await output.review({ username, page: current }, review);
+                                    }
                                 }
                             } catch (e) {
                                 // it's ok for failing here, not every page has reviews
@@ -669,6 +1094,153 @@ Apify.main(async () => {
                         // make eslint happy
                         default:
                     }
+                } else if (label === LABELS.EVENT) {
+                    const username = resolve(userData.username);
+                    const event = await getEventInfo(page, request);
+                    const { max, date } = eventLimits(request);
+
+                    // events without a known date are always kept
+                    if (event.startDate && !date.compare(event.startDate)) {
+                        log.debug('Event outside of the date window', { url: request.url, startDate: event.startDate });
+                        return;
+                    }
+
+                    let kept = true;
+
+                    const current = await map.append(username, async (value) => {
+                        const events = (value?.events ?? []).filter(({ url }) => url !== event.url);
+
+                        // there are more candidates than the limit when using the date window
+                        if (events.length >= max) {
+                            kept = false;
+                            return value;
+                        }
+
+                        return {
+                            ...value,
+                            events: [
+                                ...events,
+                                event,
+                            ],
+                        };
+                    });
+
+                    if (!kept) {
+                        log.debug(`Already got ${max} events`, { url: request.url });
+                        return;
+                    }
+
+                    await output.event({ username, page: current }, event);
+
+                    log.info('Got event', { url: request.url, title: event.title });
+                } else if (label === LABELS.ALBUM) {
+                    const username = resolve(await mediaOwner(page, request));
+
+                    let max = maxPhotos;
+
+                    const { overriden, settings } = overrideUserData(input, request);
+
+                    if (overriden && settings?.maxPhotos !== undefined) {
+                        max = settings.maxPhotos;
+                    }
+
+                    const album = await getAlbum(page, {
+                        max,
+                        username,
+                        requestQueue,
+                        request,
+                    });
+
+                    const current = await map.append(username, async (value) => {
+                        return {
+                            ...value,
+                            albums: [
+                                ...(value?.albums ?? []).filter(({ id }) => id !== album.id),
+                                album,
+                            ],
+                        };
+                    });
+
+                    await output.album({ username, page: current }, album);
+                } else if (label === LABELS.PHOTO) {
+                    const username = resolve(await mediaOwner(page, request));
+                    const photo = await getPhotoInfo(page, request);
+
+                    const current = await map.append(username, async (value) => {
+                        return {
+                            ...value,
+                            photos: [
+                                ...(value?.photos ?? []).filter(({ id }) => id !== photo.id),
+                                photo,
+                            ],
+                        };
+                    });
+
+                    await output.photo({ username, page: current }, photo);
+
+                    log.info('Got photo', { url: request.url });
+                } else if (label === LABELS.VIDEO) {
+                    const username = resolve(userData.username);
+                    const video = await getVideoInfo(page, request);
+
+                    let date = videoDate;
+
+                    const { overriden, settings } = overrideUserData(input, request);
+
+                    if (overriden && (settings?.minVideoDate || settings?.maxVideoDate)) {
+                        date = minMaxDates({
+                            min: settings.minVideoDate,
+                            max: settings.maxVideoDate,
+                        });
+                    }
+
+                    if (video.date && !date.compare(video.date)) {
+                        log.debug('Video outside of the date window', { url: request.url, date: video.date });
+                        return;
+                    }
+
+                    let isPost = false;
+
+                    const current = await map.append(username, async (value) => {
+                        isPost = (value?.posts ?? []).some((post) => isSameVideo(post, video.id));
+
+                        if (isPost) {
+                            return value;
+                        }
+
+                        return {
+                            ...value,
+                            videos: [
+                                ...(value?.videos ?? []).filter(({ id }) => id !== video.id),
+                                video,
+                            ],
+                        };
+                    });
+
+                    if (isPost) {
+                        log.info('Video was already output as a post, skipping', { url: request.url });
+                        return;
+                    }
+
+                    await output.video({ username, page: current }, video);
+
+                    log.info('Got video', { url: request.url });
+                } else if (label === LABELS.POST && userData.snapshot) {
+                    const { postId } = userData;
+                    const username = resolve(userData.username);
+
+                    // only the stats, comments aren't loaded
+                    const postStats = await getPostInfoFromScript(page, request);
+
+                    await output.snapshot({ username, page: await map.read(username), postId }, {
+                        postId: postId ?? null,
+                        postUrl: userData.canonical ?? request.url,
+                        postDate: userData.postDate ?? null,
+                        date: new Date().toISOString(),
+                        postStats,
+                    });
+
+                    log.info('Got post engagement snapshot', { url: request.url });
                 } else if (label === LABELS.POST) {
                     const postTimer = stopwatch();
 
@@ -676,17 +1248,39 @@ Apify.main(async () => {
 
                     // actually parse post content here, it doesn't work on
                     // mobile address
-                    const { username } = userData;
+                    const username = resolve(userData.username);
+                    const known = await history.page(username);
+                    const isKnownPost = known.has('posts', userData.postId);
+
+                    // the comments of the page items are inside their post, so known
+                    // posts given on startUrls can only bring their new comments when streaming
+                    if (isKnownPost && !output.isStreaming) {
+                        log.info('Post was already output on a previous run, skipping', { url: request.url });
+                        return;
+                    }
 
                     const [postStats, content] = await Promise.all([
                         getPostInfoFromScript(page, request),
                         getPostContent(page),
                     ]);
 
+                    const postType: FbPostType = content.sharedFrom ? 'shared' : (userData.postType ?? getPostType({ url: content.postUrl }));
+                    let postVideo: FbPostVideo | null = null;
+
+                    if (['video', 'live', 'reel'].includes(postType)) {
+                        try {
+                            postVideo = await getPostVideo(page, request);
+                        } catch (e) {
+                            log.debug(`getPostVideo ${e.message}`, { url: request.url });
+                        }
+                    }
+
                     const { overriden, settings } = overrideUserData(input, request);
                     let mode: FbCommentsMode = commentsMode;
                     let date: typeof commentDate = commentDate;
                     let max = maxPostComments;
+                    let maxReplies = maxCommentReplies;
+                    let maxDepth = maxCommentDepth;
                     let minComments = minPostComments;
 
                     if (overriden) {
@@ -705,14 +1299,49 @@ Apify.main(async () => {
                             mode = settings.commentsMode;
                         }
 
+                        if (settings?.maxCommentReplies !== undefined) {
+                            maxReplies = settings.maxCommentReplies;
+                        }
+
+                        if (settings?.maxCommentDepth !== undefined) {
+                            maxDepth = settings.maxCommentDepth;
+                        }
+
                         if (settings?.minPostComments) {
                             minComments = settings.minPostComments;
                         }
                     }
 
-                    const existingPost = await map.read(username).then((p) => p?.posts?.find((post) => post.postUrl === content.postUrl));
+                    const pageState = await map.read(username);
+                    const existingPost = pageState?.posts?.find((post) => post.postUrl === content.postUrl);
+
+                    if (!existingPost && pageState?.videos?.some((video) => isSameVideo({ ...content, postVideo }, video.id))) {
+                        log.info('Post was already output as a video, skipping', { url: request.url });
+                        return;
+                    }
+
+                    let postImages = content.postImages ?? [];
+                    const mediaPage = createMediaPage(page);
+
+                    try {
+                        if (!existingPost && fullResolutionImages && postImages.length) {
+                            postImages = await mediaPage.getFullImages(postImages);
+                        }
+
+                        if (!existingPost && downloadMedia) {
+                            for (const image of postImages) {
+                                image.key = await media.save(image.fullImage ?? image.image, (url) => mediaPage.fetch(url));
+                            }
+                        }
+                    } finally {
+                        await mediaPage.close();
+                    }
+
                     const postContent: FbPost = existingPost || {
                         ...content as FbPost,
+                        postImages,
+                        postType,
+                        postVideo,
                         postStats,
                         postComments: {
                             count: 0,
@@ -721,7 +1350,13 @@ Apify.main(async () => {
                         },
                     };
 
-                    if (!existingPost) {
+                    // the page might have been persisted and read again
+                    // in the meantime, so the post needs to be looked up
+                    const findPost = (value?: Partial<FbPage>) => {
+                        return value?.posts?.find((post) => post.postUrl === postContent.postUrl) ?? postContent;
+                    };
+
+                    if (!existingPost && !isKnownPost) {
                         await map.append(username, async (value) => {
                             return {
                                 ...value,
@@ -731,33 +1366,75 @@ Apify.main(async () => {
                                 ],
                             } as Partial<FbPage>;
                         });
+
+                        await output.post({ username, page: pageState, postId: userData.postId }, postContent);
                     }
 
                     const postCount = await getPostComments(page, {
                         max,
+                        maxReplies,
+                        maxDepth,
                         mode,
+                        pageId: pageState?.pageId,
                         date,
                         request,
                         add: async (comment) => {
+                            if (comment.id && known.has('comments', comment.id)) {
+                                return;
+                            }
+
                             await map.append(username, async (value) => {
-                                postContent.postComments.comments.push(comment);
+                                findPost(value).postComments.comments.push(comment);
                                 return value;
                             });
+
+                            await outputOnce(
+                                request,
+                                `comment:${comment.id ?? comment.url}`,
+                                () => output.comment({ username, page: pageState, postId: userData.postId }, postContent, comment),
+                            );
+
+                            if (comment.id) {
+                                known.add('comments', comment.id);
+                            }
                         },
                     });
 
-                    await map.append(username, async (value) => {
-                        postContent.postComments.count = postCount;
+                    const { postComments } = findPost(await map.append(username, async (value) => {
+                        findPost(value).postComments.count = postCount;
                         return value;
-                    });
+                    }));
+
+                    // replies don't count, the same as maxPostComments
+                    const topLevelComments = postComments?.comments?.filter(({ parentId }) => !parentId).length ?? 0;
 
-                    if (max && minComments && (postContent?.postComments?.comments?.length ?? 0) < minComments) {
+                    if (max && minComments && topLevelComments < minComments) {
                         throw new InfoError(`Minimum post count ${minComments} not met, retrying`, {
                             namespace: 'threshold',
                             url: page.url(),
                         });
                     }
 
+                    known.add('posts', userData.postId);
+
+                    if (trackEngagement && userData.postId && !revisitedPosts.has(userData.postId)) {
+                        engagement.add({
+                            postId: userData.postId,
+                            url: request.url,
+                            username,
+                            canonical: userData.canonical,
+                            postDate: postContent.postDate,
+                        });
+
+                        await output.snapshot({ username, page: pageState, postId: userData.postId }, {
+                            postId: userData.postId,
+                            postUrl: postContent.postUrl,
+                            postDate: postContent.postDate,
+                            date: new Date().toISOString(),
+                            postStats,
+                        });
+                    }
+
                     log.info(`Processed post in ${postTimer() / 1000}s`, { url: request.url });
                 }
             } catch (e) {
@@ -819,13 +1496,15 @@ Apify.main(async () => {
     });
 
     await persistState();
-
-    log.info('Generating dataset...');
-
-    // generate the dataset from all the crawled pages
-    for (const page of state.values()) {
-        await extendOutputFunction(page, {});
-    }
+    await history.persistState();
+    await engagement.persistState();
+    await media.persistState();
+
+    await output.finish(pending());
+    await history.commit();
+    await validator.persistState();
+    await webhook.finish();
+    await health.persistState(true);
 
     residentialWarning();
 
@@ -0,0 +1,43 @@
+import { promises as fs } from 'fs';
+import { migrate } from './schema';
+
+/**
+ * Upgrade a JSON dataset export from older versions to the current one.
+ * Items from the other layouts are kept as they are
+ *
+ * @example
+ *   npm run migrate -- dataset.json > migrated.json
+ *   npm run migrate -- dataset.json --language=de-DE > migrated.json
+ */
+const run = async () => {
+    const args = process.argv.slice(2);
+    const [file] = args.filter((arg) => !arg.startsWith('--'));
+    const language = args.find((arg) => arg.startsWith('--language='))?.split('=')[1];
+
+    if (!file) {
+        throw new Error('Usage: npm run migrate -- <dataset.json> [--language=en-US]');
+    }
+
+    const items = JSON.parse(await fs.readFile(file, 'utf8'));
+    let skipped = 0;
+
+    const migrated = (Array.isArray(items) ? items : [items]).map((item) => {
+        if (item['#layout'] !== undefined && item['#layout'] !== 'PAGE') {
+            skipped++;
+            return item;
+        }
+
+        return migrate(item, undefined, { language });
+    });
+
+    if (skipped) {
+        process.stderr.write(`${skipped} items aren't from the PAGE layout, they were kept as they are\n`);
+    }
+
+    process.stdout.write(JSON.stringify(migrated, null, 4));
+};
+
+run().catch((e) => {
+    process.stderr.write(`${e.message}\n`);
+    process.exitCode = 1;
+});
@@ -0,0 +1,102 @@
+import escapeStringRegexp = require('escape-string-regexp');
+import { normalizeLocaleText as normalize, toIntlLocale, memoizeByLanguage } from './functions';
+
+/**
+ * Numbers that Intl writes with each abbreviation, with
+ * enough of them to get the plural forms, that can depend
+ * on the last digit, like "4 na milyon" in Filipino
+ */
+const COMPACT_SAMPLES = [1, 1.2, 1.4, 2, 3, 4, 5, 6, 7, 8, 9, 11, 12, 21, 22, 25, 100, 101, 102, 105, 123];
+
+/**
+ * The abbreviations of the language, like "mil", "тыс." or "万", with
+ * their multipliers, taken from Intl. The English ones are kept when they
+ * don't clash, since some counts aren't translated
+ */
+const localeAbbreviations = (language: string) => {
+    const abbreviations = new Map<string, number>();
+
+    for (const locale of [toIntlLocale(language), 'en-US']) {
+        const found = new Map<string, number>();
+
+        for (const compactDisplay of ['short', 'long'] as const) {
+            // compact notation isn't on the es2018 typings
+            const format = new Intl.NumberFormat(locale, { notation: 'compact', compactDisplay, numberingSystem: 'latn' } as Intl.NumberFormatOptions);
+
+            for (let exponent = 3; exponent <= 12; exponent++) {
+                for (const sample of COMPACT_SAMPLES) {
+                    const value = sample * (10 ** exponent);
+                    const parts = format.formatToParts(value);
+                    const compact = parts.filter(({ type }) => type === 'compact').map((part) => part.value).join('');
+                    const mantissa = +parts
+                        .filter(({ type }) => ['integer', 'decimal', 'fraction'].includes(type))
+                        .map((part) => (part.type === 'decimal' ? '.' : part.value))
+                        .join('');
+
+                    if (compact && mantissa) {
+                        const name = normalize(compact).trim().replace(/\.$/, '');
+
+                        if (!found.has(name)) {
+                            found.set(name, 10 ** Math.round(Math.log10(value / mantissa)));
+                        }
+                    }
+                }
+            }
+        }
+
+        for (const [name, multiplier] of found) {
+            if (!abbreviations.has(name)) {
+                abbreviations.set(name, multiplier);
+            }
+        }
+    }
+
+    return abbreviations;
+};
+
+/**
+ * Creates the count parser for the language, that reads the first number
+ * of a text like "1,234 likes", "1,2 mil", "12 тыс.", "1.2万" or "3,4 Mio.".
+ *
+ * Counts are whole numbers, so without an abbreviation every separator
+ * is a grouping separator. With an abbreviation, the last separator
+ * followed by one or two digits is the decimal separator.
+ *
+ * Parsers are created once per language
+ */
+export const createNumberParser = memoizeByLanguage((language) => {
+    const abbreviations = localeAbbreviations(language);
+    const alternation = [...abbreviations.keys()].sort((a, b) => b.length - a.length).map(escapeStringRegexp).join('|');
+    // grouping by spaces only before 3 digits, so "12 тыс." isn't "12тыс."
+    // some languages write the abbreviation first, like "elfu 1.2".
+    // the abbreviation must end the word, so a word that starts like one
+    // isn't read as it, except in the scripts that don't separate words
+    // with spaces, like "1.2万人" or "1.2만명"
+    const pattern = new RegExp(
+        `(?:(?<![\\p{L}\\p{M}])(${alternation})\\.? ?)?(\\d+(?:(?:[.,'’٫٬]| (?=\\d{3}(?!\\d)))\\d+)*)`
+        + `(?: ?(${alternation})\\.?(?:(?<=[\\p{sc=Han}\\p{sc=Hangul}\\p{sc=Hiragana}\\p{sc=Katakana}\\p{sc=Thai}])|(?![\\p{L}\\p{M}])))?`,
+        'u',
+    );
+
+    /**
+     * Returns null when there's no number in the text
+     */
+    return (text: string | null | undefined): number | null => {
+        const match = normalize(`${text ?? ''}`).match(pattern);
+
+        if (!match) {
+            return null;
+        }
+
+        const [, prefix, number, suffix] = match;
+        const abbreviation = suffix ?? prefix;
+
+        if (!abbreviation) {
+            return +number.replace(/\D/g, '');
+        }
+
+        const [, integer, fraction = ''] = number.match(/^(.+?)(?:[.,٫](\d{1,2}))?$/)!;
+
+        return Math.round(+`${integer.replace(/\D/g, '')}.${fraction || '0'}` * abbreviations.get(abbreviation)!);
+    };
+});
@@ -0,0 +1,226 @@
+import Apify from 'apify';
+import { OUTPUT_VERSIONS, DESKTOP_ADDRESS } from './constants';
+import { normalizeOutputPageUrl } from './functions';
+import type {
+    FbComment,
+    FbOutputMode,
+    FbPage,
+    FbPost,
+    FbPostSnapshot,
+    FbProfileChange,
+    FbRecord,
+    FbRecordType,
+    FbReview,
+    FbService,
+    FbEvent,
+    FbAlbum,
+    FbPhoto,
+    FbVideo,
+    FbPageEdge,
+} from './definitions';
+
+const { log } = Apify.utils;
+
+/**
+ * Where the output item belongs to
+ */
+export interface OutputRef {
+    username: string;
+    page?: Partial<FbPage>;
+    postId?: string | null;
+}
+
+/**
+ * Named datasets used by the NORMALIZED output mode
+ */
+export const NORMALIZED_DATASETS: Record<FbRecordType, string> = {
+    page: 'pages',
+    post: 'posts',
+    comment: 'comments',
+    review: 'reviews',
+    service: 'services',
+    event: 'events',
+    album: 'albums',
+    photo: 'photos',
+    video: 'videos',
+    edge: 'edges',
+    change: 'changes',
+    snapshot: 'snapshots',
+};
+
+/**
+ * Record types that are output as their own items even on the `PAGE`
+ * output mode, to their named datasets and with the `STREAM` layout
+ */
+export const PAGE_MODE_RECORDS: FbRecordType[] = ['edge', 'snapshot'];
+
+/**
+ * The layout of the output items of this type
+ */
+export const recordLayout = (mode: FbOutputMode, type: FbRecordType): FbOutputMode => {
+    return mode === 'PAGE' && PAGE_MODE_RECORDS.includes(type) ? 'STREAM' : mode;
+};
+
+/**
+ * Opens the datasets needed by the output mode, and returns
+ * a function that writes to the correct one
+ */
+export const openDatasets = async (mode: FbOutputMode) => {
+    const datasets = new Map<FbRecordType, Apify.Dataset>();
+    const dataset = await Apify.openDataset();
+
+    if (mode === 'NORMALIZED') {
+        for (const [type, name] of Object.entries(NORMALIZED_DATASETS) as Array<[FbRecordType, string]>) {
+            datasets.set(type, await Apify.openDataset(name));
+        }
+    } else if (mode === 'PAGE') {
+        // the default dataset only has pages
+        for (const type of PAGE_MODE_RECORDS) {
+            datasets.set(type, await Apify.openDataset(NORMALIZED_DATASETS[type]));
+        }
+    }
+
+    return async (data: Record<string, any>, type: FbRecordType) => {
+        await (datasets.get(type) ?? dataset).pushData(data);
+    };
+};
+
+/**
+ * Stamps the data format of the given output mode, so the
+ * layout can be detected and changes to it can be tracked
+ */
+export const stampVersion = <T extends Record<string, any>>(data: T, mode: FbOutputMode): T => {
+    return Object.assign(data, {
+        '#version': OUTPUT_VERSIONS[mode],
+        '#layout': mode,
+    });
+};
+
+/**
+ * Decides when and how the scraped data reaches the dataset.
+ *
+ * `PAGE` outputs one item per page after the crawler finishes. Edges
+ * and snapshots are still output as they come, to their named datasets.
+ *
+ * `STREAM` outputs the page, each post, comment, review, service, event,
+ * album, photo and video as its own item as soon as they are scraped, linked by `pageUrl`
+ * (and `postUrl` for comments)
+ *
+ * `NORMALIZED` outputs the same items as `STREAM`, but each type
+ * goes to its own named dataset, linked by `username`, `postId`
+ * and the comment `id`
+ */
+export const createOutput = ({ mode, push }: {
+    mode: FbOutputMode;
+    push: (data: Partial<FbPage> | FbRecord, type: FbRecordType) => Promise<void>;
+}) => {
+    const isStreaming = mode !== 'PAGE';
+
+    const record = async (
+        type: FbRecordType,
+        { username, page, postId }: OutputRef,
+        data: Record<string, any>,
+    ) => {
+        if (!isStreaming && !PAGE_MODE_RECORDS.includes(type)) {
+            return;
+        }
+
+        if (mode === 'NORMALIZED') {
+            await push({
+                username,
+                ...(type === 'post' || type === 'comment' ? { postId: postId ?? null } : {}),
+                ...data,
+            } as FbRecord, type);
+        } else {
+            await push({
+                type,
+                // pages that weren't scraped on this run, like engagement snapshots
+                pageUrl: page?.pageUrl || normalizeOutputPageUrl(`${DESKTOP_ADDRESS}/${username}`),
+                ...data,
+            } as FbRecord, type);
+        }
+    };
+
+    return {
+        isStreaming,
+        /**
+         * The page profile, without posts, reviews, services, events, albums, photos, videos and changes
+         */
+        async page(ref: OutputRef) {
+            // eslint-disable-next-line @typescript-eslint/no-unused-vars
+            const { posts, reviews, services, events, albums, photos, videos, changes, ...profile } = ref.page ?? {};
+
+            await record('page', ref, profile);
+        },
+        /**
+         * The post content and stats, comments are output separately
+         */
+        async post(ref: OutputRef, post: FbPost) {
+            // eslint-disable-next-line @typescript-eslint/no-unused-vars
+            const { postComments, ...content } = post;
+
+            await record('post', ref, content);
+        },
+        async comment(ref: OutputRef, post: FbPost, comment: FbComment) {
+            await record('comment', ref, mode === 'NORMALIZED' ? comment : {
+                postUrl: post.postUrl,
+                ...comment,
+            });
+        },
+        async review(ref: OutputRef, review: FbReview) {
+            await record('review', ref, review);
+        },
+        async service(ref: OutputRef, service: FbService) {
+            await record('service', ref, service);
+        },
+        async event(ref: OutputRef, event: FbEvent) {
+            await record('event', ref, event);
+        },
+        async album(ref: OutputRef, album: FbAlbum) {
+            await record('album', ref, album);
+        },
+        async photo(ref: OutputRef, photo: FbPhoto) {
+            await record('photo', ref, photo);
+        },
+        async video(ref: OutputRef, video: FbVideo) {
+            await record('video', ref, video);
+        },
+        /**
+         * Link to a related or liked page. Always output as its own
+         * item, even when not streaming
+         */
+        async edge(ref: OutputRef, edge: FbPageEdge) {
+            await record('edge', ref, edge);
+        },
+        /**
+         * Profile field that changed since the last run. When not streaming,
+         * they are part of the page `changes` instead
+         */
+        async change(ref: OutputRef, change: FbProfileChange) {
+            await record('change', ref, change);
+        },
+        /**
+         * Post stats at the time of the visit. Always output as its own
+         * item, even when not streaming
+         */
+        async snapshot(ref: OutputRef, snapshot: FbPostSnapshot) {
+            await record('snapshot', ref, snapshot);
+        },
+        /**
+         * Output the whole pages from the crawl state. No-op when streaming,
+         * since everything was already output
+         */
+        async finish(pages: AsyncIterable<Partial<FbPage>>) {
+            if (isStreaming) {
+                return;
+            }
+
+            log.info('Generating dataset...');
+
+            // generate the dataset from all the crawled pages
+            for await (const page of pages) {
+                await push(page, 'page');
+            }
+        },
+    };
+};
@@ -2,12 +2,32 @@ import Apify from 'apify';
 import type { Page, Response as HTTPResponse } from 'playwright';
 import DelayAbort, { AbortError } from 'delayable-idle-abort-promise';
 import get = require('lodash.get');
-import type { FbPageInfo, FbPost, FbPage, FbGraphQl, FbComment, FbCommentsMode, FbReview, FbService } from './definitions';
+import type {
+    FbPageInfo,
+    FbPost,
+    FbPage,
+    FbGraphQl,
+    FbComment,
+    FbCommentsMode,
+    FbReview,
+    FbService,
+    FbReactionsBreakdown,
+    FbPostVideo,
+    FbEntityType,
+    FbImage,
+    FbEvent,
+    FbLdEvent,
+    FbAlbum,
+    FbPhoto,
+    FbVideo,
+    FbPageRelation,
+} from './definitions';
 import {
     deferred,
     pageSelectors,
     uniqueNonEmptyArray,
     imageSelectors,
+    cssSelector,
     scrollUntil,
     clickSeeMore,
     convertDate,
@@ -16,8 +36,20 @@ import {
     MinMaxDates,
     dateRangeItemCounter,
     isError,
+    getIconRows,
+    getPostType,
+    extractVideoId,
+    getUrlLabel,
+    profileToPageUrl,
+    extractUsernameFromUrl,
 } from './functions';
-import { CSS_SELECTORS, DESKTOP_ADDRESS, LABELS, PSN_POST_TYPE_BLACKLIST } from './constants';
+import { recordSelector, recordUnknownIcon } from './health';
+import { createHoursParser } from './hours';
+import { createNumberParser } from './numbers';
+import { createPhoneParser } from './phones';
+import { extractEntities } from './entities';
+import type { EntityLink } from './entities';
+import { DESKTOP_ADDRESS, LABELS, NON_PAGE_PATHS, PSN_POST_TYPE_BLACKLIST } from './constants';
 import { InfoError } from './error';
 
 const { log, sleep } = Apify.utils;
@@ -27,14 +59,15 @@ const { log, sleep } = Apify.utils;
  *
  * @throws {InfoError}
  */
-export const getPageInfo = async (page: Page): Promise<FbPageInfo> => {
+export const getPageInfo = async (page: Page, { language = 'en-US' }: { language?: string } = {}): Promise<FbPageInfo> => {
     const [
         title,
         messenger,
         verified,
         ld,
+        pageId,
     ] = await Promise.allSettled([
-        page.$eval(CSS_SELECTORS.PAGE_NAME, async (el) => {
+        page.$eval(cssSelector('PAGE_NAME'), async (el) => {
             if (el && el.attributes) {
                 window.unc(el as HTMLMetaElement);
 
@@ -50,13 +83,14 @@ export const getPageInfo = async (page: Page): Promise<FbPageInfo> => {
         pageSelectors.messenger(page, 1000),
         pageSelectors.verified(page, 1000),
         pageSelectors.ld(page, 1000),
+        pageSelectors.pageId(page),
     ]);
 
     const titleValue = title.status === 'fulfilled' ? title.value : '';
 
-    // this is a best effort attempt to get the like count. starting from 1 million+,
-    // things get wild and unprecise
-    const likes = await page.$eval(CSS_SELECTORS.META_DESCRIPTION, async (el, pageTitle) => {
+    // like count starts after the page name, number format
+    // varies depending on language, like 1,200, 1 200, 1.2K, 1,2 mil
+    const likes = await page.$eval(cssSelector('META_DESCRIPTION'), async (el, pageTitle) => {
         let text = '';
 
         if (el && el.attributes) {
@@ -69,36 +103,13 @@ export const getPageInfo = async (page: Page): Promise<FbPageInfo> => {
             }
         }
 
-        const likesNumber = text
-            .replace(pageTitle, '')
-            .replace(/^[^\d]+/, '') // like count starts after the page name
-            .match(/([\s,.0-9]+)\s?([mk]{0,1})/i); // number format varies depending on language, like 1,200, 1 200, 1.200, 1.2K, 2M
-
-        if (likesNumber?.[1]) {
-            const trimmed = likesNumber[1].trim();
-            const parsedNumber = trimmed.length < 5 ? trimmed.replace(/,/g, '.') : trimmed; // 1,2 -> 1.2, 1.2 -> 1.2, 1200 -> 1200
-            let value = +(parsedNumber.replace(/[^.0-9]/g, '')) || 0;
-            let multipler = 1;
-
-            if (likesNumber?.[2]) {
-                if (/^m$/i.test(likesNumber[2])) {
-                    multipler = 1000000;
-                } else if (/^k$/i.test(likesNumber[2])) {
-                    multipler = 1000;
-                }
-            } else if (!Number.isInteger(value)) {
-                value = +(`${value}`.replace(/[^0-9]/g, ''));
-            }
-
-            return value * multipler;
-        }
-
-        return 0;
-    }, titleValue);
+        return text.replace(pageTitle, '');
+    }, titleValue).then((text) => createNumberParser(language)(text) ?? 0);
 
     const info = ld.status === 'fulfilled' ? (ld.value?.[0]?.address ?? null) : null;
 
     return {
+        pageId: pageId.status === 'fulfilled' ? pageId.value : null,
         verified: verified.status === 'fulfilled' ? verified.value : false,
         title: titleValue,
         messenger: messenger.status === 'fulfilled' ? messenger.value : '',
@@ -177,10 +188,11 @@ export const getPagesFromSearch = async function* (page: Page, searchLimit: numb
 };
 
 /**
- * Get posts until it reaches the given max
+ * Get posts until it reaches the given max, or until it finds
+ * `knownLimit` posts in a row that are already known
  */
 export const getPostUrls = async (page: Page, {
-    max, date, username, requestQueue, request,
+    max, date, username, requestQueue, request, isKnown = () => false, knownLimit = 5,
 }: {
     requestQueue: Apify.RequestQueue,
     username: string;
@@ -188,6 +200,8 @@ export const getPostUrls = async (page: Page, {
     date: MinMaxDates,
     request: Apify.Request;
     minPosts?: number;
+    isKnown?: (postId: string) => boolean;
+    knownLimit?: number;
 }) => {
     if (!max) {
         return 0;
@@ -202,6 +216,7 @@ export const getPostUrls = async (page: Page, {
     const scrollingSleep = 1500;
 
     const counter = dateRangeItemCounter(date);
+    let knownInARow = 0;
 
     const getPosts = async () => {
         try {
@@ -241,6 +256,25 @@ export const getPostUrls = async (page: Page, {
                     continue; // eslint-disable-line
                 }
 
+                if (!isPinned) {
+                    if (isKnown(top_level_post_id)) {
+                        knownInARow++;
+
+                        if (knownInARow >= knownLimit) {
+                            log.info('Stopping getting posts, reached already known posts', { size: urls.size, knownInARow });
+
+                            finish.resolve();
+                            return;
+                        }
+
+                        continue; // eslint-disable-line
+                    }
+
+                    knownInARow = 0;
+                } else if (isKnown(top_level_post_id)) {
+                    continue; // eslint-disable-line
+                }
+
                 const convertedDate = convertDate(page_insights[page_id].post_context.publish_time);
                 const inDateRange = !isPinned
                     ? counter.time(convertedDate)
@@ -269,6 +303,11 @@ export const getPostUrls = async (page: Page, {
                         userData: {
                             override: request.userData.override,
                             postId: top_level_post_id || story_fbid,
+                            postType: getPostType({
+                                style: story_attachment_style,
+                                shared: !!ft?.original_content_id,
+                                url,
+                            }),
                             label: LABELS.POST,
                             useMobile: false,
                             username,
@@ -384,7 +423,7 @@ export const getPostUrls = async (page: Page, {
                         await resetScroll();
                     }
 
-                    return urls.size >= max || counter.isOver() || (count > 20 && !bodyChanged && !scrollChanged);
+                    return urls.size >= max || counter.isOver() || knownInARow >= knownLimit || (count > 20 && !bodyChanged && !scrollChanged);
                 },
             }),
         ]);
@@ -549,7 +588,17 @@ export const getReviews = async (
  * Some keys have a different behavior, so they need to be dealt
  * with separately
  */
-export const getFieldInfos = async (page: Page, currentState: Partial<FbPage>): Promise<Partial<FbPage>> => {
+export const getFieldInfos = async (
+    page: Page,
+    currentState: Partial<FbPage>,
+    { language = 'en-US', countryCode }: {
+        language?: string;
+        /**
+         * The country of phone numbers when the address doesn't tell
+         */
+        countryCode?: string | null;
+    } = {},
+): Promise<Partial<FbPage>> => {
     const url = page.url();
 
     try {
@@ -575,8 +624,8 @@ export const getFieldInfos = async (page: Page, currentState: Partial<FbPage>):
             return count > 5;
         },
         selectors: [
-            CSS_SELECTORS.SEE_MORE,
-            CSS_SELECTORS.PAGE_TRANSPARENCY,
+            cssSelector('SEE_MORE'),
+            cssSelector('PAGE_TRANSPARENCY'),
             'article', // posts loaded, usually past about box
         ],
     });
@@ -597,6 +646,21 @@ export const getFieldInfos = async (page: Page, currentState: Partial<FbPage>):
         });
     });
 
+    selectorKeys.forEach((key, index) => recordSelector('imageSelectors', key, result[index].length > 0));
+
+    const parseNumber = createNumberParser(language);
+    const parseHours = createHoursParser(language);
+
+    try {
+        for (const { name, text, known } of await getIconRows(page)) {
+            if (!known) {
+                recordUnknownIcon(name, text.slice(0, 100));
+            }
+        }
+    } catch (e) {
+        log.debug(`getIconRows ${e.message}`, { url });
+    }
+
     // match the results with the selectors name, to generate
     // the output object. existing non-empty entries won't be
     // overwritten.
@@ -637,9 +701,14 @@ export const getFieldInfos = async (page: Page, currentState: Partial<FbPage>):
             case 'twitter':
             case 'payment':
             case 'youtube':
-            case 'checkins':
                 out[key] = out[key] || uniqueNonEmptyArray(result[index])[0] || null;
                 break;
+            case 'checkins':
+                out[key] = out[key] || parseNumber(uniqueNonEmptyArray(result[index])[0]);
+                break;
+            case 'hours':
+                out[key] = out[key] || result[index].map((text) => parseHours(text)).find((hours) => hours) || null;
+                break;
             default:
                 // arrays
                 out[key] = uniqueNonEmptyArray((out[key] || []).concat(result[index].join('\n')));
@@ -656,12 +725,27 @@ export const getFieldInfos = async (page: Page, currentState: Partial<FbPage>):
         });
     }
 
+    const address = {
+        ...fieldsInfo.address!,
+        ...await pageSelectors.latLng(page),
+    };
+
+    // the numbers next to the phone icon first, then the ones inside info
+    const parsePhones = createPhoneParser(language, countryCode);
+    const phones = [...(fieldsInfo.phones ?? [])];
+
+    for (const phone of parsePhones([...result[selectorKeys.indexOf('phone')], ...(fieldsInfo.info ?? [])], address)) {
+        if (!phones.some(({ number }) => number === phone.number)) {
+            phones.push(phone);
+        }
+    }
+
     return {
         ...fieldsInfo,
-        address: {
-            ...fieldsInfo.address!,
-            ...await pageSelectors.latLng(page),
-        },
+        phone: parsePhones([fieldsInfo.phone], address)[0]?.number ?? fieldsInfo.phone ?? null,
+        phones,
+        hours: fieldsInfo.hours ?? null,
+        address,
     };
 };
 
@@ -670,7 +754,7 @@ export const getFieldInfos = async (page: Page, currentState: Partial<FbPage>):
  */
 export const isNotFoundPage = async (page: Page) => {
     // real pages have og:url meta
-    return !(await page.$(CSS_SELECTORS.VALID_PAGE));
+    return !(await page.$(cssSelector('VALID_PAGE')));
 };
 
 /**
@@ -711,6 +795,50 @@ export const getPostInfoFromScript = async (page: Page, request: Apify.Request):
     };
 };
 
+/**
+ * Views and duration of the video from the page scripts
+ */
+const getVideoStatsFromScript = (html: string) => {
+    const views = [...html.matchAll(/(?:video_view_count|play_count|viewCount):(\d+)/g)]
+        .reduce((count, [, value]) => (+value > count ? +value : count), 0);
+    const duration = html.match(/playable_duration_in_ms:(\d+)/)?.[1];
+
+    return {
+        views: views || null,
+        duration: duration ? Math.round(+duration / 1000) : null,
+    };
+};
+
+/**
+ * Views, duration, thumbnail and permalink of video posts,
+ * from the post page
+ */
+export const getPostVideo = async (page: Page, request: Apify.Request): Promise<FbPostVideo> => {
+    const { html, thumbnail, url } = await page.evaluate(async ({ postId, container }) => {
+        const post = document.querySelector(container);
+        const poster = post?.querySelector<HTMLVideoElement>('video[poster]')?.poster
+            || post?.querySelector<HTMLImageElement>('a[href*="/videos/"] img')?.src
+            || document.querySelector<HTMLMetaElement>('meta[property="og:image"]')?.content;
+        const link = post?.querySelector<HTMLAnchorElement>('a[href*="/videos/"],a[href*="/reel/"]')?.href
+            || document.querySelector<HTMLMetaElement>('meta[property="og:video:url"]')?.content;
+
+        return {
+            html: [...document.querySelectorAll('script:not([nonce],[type])')]
+                .filter((s) => s.innerHTML.includes(postId))
+                .map((s) => s.innerHTML)
+                .join('\n'),
+            thumbnail: poster || null,
+            url: link || null,
+        };
+    }, { postId: request.userData.postId, container: cssSelector('POST_CONTAINER') });
+
+    return {
+        ...getVideoStatsFromScript(html),
+        thumbnail,
+        url: url && /facebook\.com\//.test(url) ? url.split('?')[0] : url,
+    };
+};
+
 /**
  * Get the content from the dedicated post page.
  *
@@ -718,21 +846,72 @@ export const getPostInfoFromScript = async (page: Page, request: Apify.Request):
  * which we are already expecting
  */
 export const getPostContent = async (page: Page): Promise<Partial<FbPost>> => {
-    await page.waitForSelector(CSS_SELECTORS.POST_CONTAINER, {
+    await page.waitForSelector(cssSelector('POST_CONTAINER'), {
         state: 'attached',
     });
 
-    const content = await page.$eval(CSS_SELECTORS.POST_CONTAINER, async (el): Promise<Partial<FbPost>> => {
+    const { anchors, ...content } = await page.$eval(cssSelector('POST_CONTAINER'), async (el, sharedSelector): Promise<Partial<FbPost> & { anchors: EntityLink[] }> => {
         const postDate = (el.querySelector('[data-utime]') as HTMLDivElement)?.dataset?.utime;
-        const userContent = el.querySelector('.userContent') as HTMLDivElement;
+        const shared = el.querySelector<HTMLDivElement>(sharedSelector);
+        // the shared post has its own .userContent, that isn't the page text
+        const userContent = [...el.querySelectorAll<HTMLDivElement>('.userContent')].find((s) => !shared?.contains(s));
 
-        if (!userContent) {
+        if (!userContent && !shared) {
             throw new Error('Missing .userContent');
         }
 
-        window.unc(userContent);
+        if (userContent) {
+            window.unc(userContent);
+        }
+
+        const postText = userContent?.innerText.trim() ?? '';
+
+        const sharedFrom = (() => {
+            if (!shared) {
+                return null;
+            }
+
+            const cleanUrl = (href?: string | null) => {
+                if (!href) {
+                    return null;
+                }
 
-        const postText = userContent.innerText.trim();
+                try {
+                    const url = new URL(href);
+                    const id = url.searchParams.get('id');
+                    const storyFbid = url.searchParams.get('story_fbid');
+
+                    url.search = '';
+
+                    if (id) {
+                        url.searchParams.set('id', id);
+                    }
+
+                    if (storyFbid) {
+                        url.searchParams.set('story_fbid', storyFbid);
+                    }
+
+                    return url.toString();
+                } catch (e) {
+                    return null;
+                }
+            };
+
+            const author = shared.querySelector<HTMLAnchorElement>('h5 a, h6 a, .fwb a');
+            const permalink = shared.querySelector<HTMLElement>('abbr[data-utime]')?.closest<HTMLAnchorElement>('a[href]');
+            const text = shared.querySelector<HTMLDivElement>('.userContent');
+
+            if (text) {
+                window.unc(text);
+            }
+
+            return {
+                authorName: author?.innerText.trim() || null,
+                authorUrl: cleanUrl(author?.href),
+                postUrl: cleanUrl(permalink?.href),
+                text: text?.innerText.trim() || null,
+            };
+        })();
         const images: HTMLImageElement[] = Array.from(el.querySelectorAll('img[src*="scontent"]'));
         const links: HTMLAnchorElement[] = Array.from(el.querySelectorAll('[href*="l.facebook.com/l.php?u="]'));
 
@@ -743,6 +922,9 @@ export const getPostContent = async (page: Page): Promise<Partial<FbPost>> => {
                 return {
                     link: img.closest<HTMLAnchorElement>('a[rel="theater"]')!.href,
                     image: img.src,
+                    alt: img.alt || null,
+                    fullImage: null,
+                    key: null,
                 };
             }),
             postLinks: [...new Set(links.filter(link => link.href).map((link) => {
@@ -754,30 +936,142 @@ export const getPostContent = async (page: Page): Promise<Partial<FbPost>> => {
                     return '';
                 }
             }).filter(s => s))],
+            sharedFrom,
+            // mentions, hashtags and links of the page text, in order
+            anchors: [...userContent?.querySelectorAll<HTMLAnchorElement>('a[href]') ?? []].map((a) => ({
+                text: a.innerText.trim(),
+                url: a.href,
+            })),
         };
-    });
+    }, cssSelector('SHARED_POST'));
 
     return {
         ...content,
+        entities: extractEntities(content.postText ?? '', anchors),
         postDate: convertDate(content.postDate, true),
         postUrl: page.url(),
     };
 };
 
 /**
- * Interact with the page to the the comments
+ * Another page of the same browser context, for the media of one post,
+ * so the post page stays where it is. It's opened on the first use and
+ * reused for every image, then closed with `close`. Only the markup of
+ * the pages it opens is loaded
+ */
+export const createMediaPage = (page: Page) => {
+    let opened: Promise<Page> | null = null;
+
+    const open = () => {
+        if (!opened) {
+            opened = page.context().newPage().then(async (media) => {
+                // media opened directly is the document, so it's still loaded
+                await media.route('**/*', async (route) => {
+                    if (['image', 'media', 'font'].includes(route.request().resourceType())) {
+                        return route.abort();
+                    }
+
+                    return route.continue();
+                });
+
+                return media;
+            });
+        }
+
+        return opened;
+    };
+
+    return {
+        /**
+         * Follow the theater link of each image for the full resolution
+         * image and its alt text. Images that fail keep only the thumbnail
+         */
+        async getFullImages(images: FbImage[]): Promise<FbImage[]> {
+            const full: FbImage[] = [];
+
+            for (const image of images) {
+                try {
+                    const theater = await open();
+
+                    await theater.goto(image.link, {
+                        waitUntil: 'domcontentloaded',
+                        timeout: 30000,
+                    });
+
+                    const { src, alt } = await theater.evaluate((selector) => {
+                        const img = document.querySelector<HTMLImageElement>(selector);
+
+                        return {
+                            src: img?.src || document.querySelector<HTMLMetaElement>('meta[property="og:image"]')?.content || null,
+                            alt: img?.alt || null,
+                        };
+                    }, cssSelector('THEATER_IMAGE'));
+
+                    full.push({
+                        ...image,
+                        alt: alt ?? image.alt,
+                        fullImage: src,
+                    });
+                } catch (e) {
+                    log.debug(`getFullImages ${e.message}`, { link: image.link });
+
+                    full.push(image);
+                }
+            }
+
+            return full;
+        },
+        /**
+         * Download the media with the cookies and proxy of the page,
+         * since the post page serves empty images
+         */
+        async fetch(url: string) {
+            const response = await (await open()).goto(url, {
+                timeout: 30000,
+            });
+
+            if (!response?.ok()) {
+                throw new Error(`Status code ${response?.status()}`);
+            }
+
+            return {
+                body: await response.body(),
+                contentType: response.headers()['content-type'] ?? 'application/octet-stream',
+            };
+        },
+        async close() {
+            if (opened) {
+                await (await opened).close();
+            }
+        },
+    };
+};
+
+/**
+ * Interact with the page to the the comments. `max` is the number
+ * of top-level comments, and up to `maxReplies` replies are kept for
+ * each comment, until `maxDepth` levels deep
  */
 export const getPostComments = async (
     page: Page,
     {
         date,
         max,
+        maxReplies = 0,
+        maxDepth = 1,
         mode = 'RANKED_THREADED',
+        pageId,
         request,
         add,
     }: {
         date: MinMaxDates;
         max?: number;
+        /**
+         * To tell the comments from the page itself
+         */
+        pageId?: string | null;
+        maxReplies?: number;
+        maxDepth?: number;
         mode?: FbCommentsMode;
         request: Apify.Request;
         add: (comment: FbComment) => Promise<any>;
@@ -787,7 +1081,24 @@ export const getPostComments = async (
         return 0;
     }
 
-    const comments = new Map<string, FbComment>(request.userData.comments || []);
+    // the scraped comments always have their id
+    type ScrapedComment = FbComment & { id: string };
+    const comments = new Map<string, ScrapedComment>(request.userData.comments || []);
+    // comment feedback id to the comment, to know which comment the replies are from
+    const feedbacks = new Map<string, ScrapedComment>(request.userData.feedbacks || []);
+    const replies = new Map<string, number>();
+    let topLevel = 0;
+
+    for (const { parentId } of comments.values()) {
+        if (parentId) {
+            replies.set(parentId, (replies.get(parentId) ?? 0) + 1);
+        } else {
+            topLevel++;
+        }
+    }
+
+    const withReplies = maxReplies > 0 && maxDepth > 0;
+    let expandingReplies = false;
 
     const finish = deferred(); // gracefully finish
     const currentUrl = page.url();
@@ -801,9 +1112,78 @@ export const getPostComments = async (
 
     log.debug('Starting loading comments', { url: currentUrl, mode, max });
 
+    type CommentNode = FbGraphQl['data']['feedback']['display_comments']['edges'][number]['node'];
+
+    const RANGE_ENTITY_TYPES: Record<string, FbEntityType> = {
+        Hashtag: 'hashtag',
+        ExternalUrl: 'url',
+    };
+
+    const toComment = (p: CommentNode, parentId: string | null, depth: number): ScrapedComment => {
+        const text = get(p, ['body', 'text']) || null;
+        const [attachment] = p.attachments ?? [];
+        const authorId = get(p, ['author', 'id']) || null;
+        const ranges = (p.body?.ranges ?? []).filter(({ entity }) => entity).map(({ offset, length, entity }) => ({
+            id: entity.id || null,
+            offset,
+            length,
+            url: entity.url || null,
+            type: RANGE_ENTITY_TYPES[get(entity, ['__typename'], '')] ?? 'mention',
+        }));
+
+        const comment: ScrapedComment = {
+            id: p.id,
+            legacyId: p.legacy_fbid || null,
+            authorId,
+            date: convertDate(p.created_time, true),
+            name: get(p, ['author', 'name']),
+            profileUrl: get(p, ['author', 'url']) || null,
+            profilePicture: get(
+                p,
+                ['author', 'profile_picture_depth_0', 'uri'],
+                get(p, ['author', 'profile_picture_depth_1_legacy', 'uri']),
+            ) || null,
+            text,
+            url: p.url,
+            parentId,
+            depth,
+            replyCount: get(p, ['feedback', 'display_comments', 'count']) || 0,
+            reactions: get(p, ['feedback', 'reaction_count', 'count']) || 0,
+            reactionsBreakdown: (p.feedback?.top_reactions?.edges ?? []).reduce((out, edge) => {
+                out[`${get(edge, ['node', 'reaction_type'], '')}`.toLowerCase() as keyof FbReactionsBreakdown] = edge.reaction_count;
+                return out;
+            }, {} as FbReactionsBreakdown),
+            attachment: attachment ? {
+                type: attachment.style_list?.[0] ?? `${get(attachment, ['media', '__typename'], 'unknown')}`.toLowerCase(),
+                url: attachment.media?.image?.uri || attachment.url || null,
+            } : null,
+            mentions: ranges.filter(({ type }) => type === 'mention').map(({ id, offset, length, url }) => ({
+                id,
+                name: `${text ?? ''}`.slice(offset, offset + length),
+                url,
+                offset,
+                length,
+            })),
+            entities: extractEntities(text, ranges.map(({ offset, length, url, type }) => ({
+                text: `${text ?? ''}`.slice(offset, offset + length),
+                url,
+                offset,
+                type,
+            }))),
+            isPageAuthor: p.is_author_original_poster === true || (!!pageId && authorId === pageId),
+            edited: (p.edit_history?.count ?? 0) > 0,
+        };
+
+        if (withReplies && p.feedback?.id && depth < maxDepth) {
+            feedbacks.set(p.feedback.id, comment);
+        }
+
+        return comment;
+    };
+
     const interceptGrapQL = async (res: HTTPResponse) => {
         try {
-            if (page.isClosed() || finish.resolved) {
+            if (page.isClosed() || (finish.resolved && !expandingReplies)) {
                 return;
             }
 
@@ -821,8 +1201,31 @@ export const getPostComments = async (
 
                     if (!errored) {
                         const data = get(json, ['data', 'feedback', 'display_comments']);
+                        const parent = feedbacks.get(get(json, ['data', 'feedback', 'id']) ?? '');
+
+                        if (data && parent) {
+                            // replies of a comment, the post comments are done already
+                            control.postpone();
+
+                            for (const p of data.edges?.map((s) => s.node).filter(s => s) ?? []) {
+                                const depth = p.depth ?? parent.depth + 1;
+                                const parentId = p.comment_parent?.id ?? parent.id;
+
+                                if (comments.has(p.id)
+                                    || depth > maxDepth
+                                    || (replies.get(parentId) ?? 0) >= maxReplies
+                                    || !date.compare(convertDate(p.created_time, true))) {
+                                    continue; // eslint-disable-line no-continue
+                                }
+
+                                const comment = toComment(p, parentId, depth);
+
+                                comments.set(p.id, comment);
+                                replies.set(parentId, (replies.get(parentId) ?? 0) + 1);
 
-                        if (data) {
+                                await add(comment);
+                            }
+                        } else if (data) {
                             if (data.count > count) {
                                 count = data.count; // eslint-disable-line prefer-destructuring
                                 if (count < max) {
@@ -834,29 +1237,20 @@ export const getPostComments = async (
                                 counter.add(data.edges.length);
                                 control.postpone(); // postpone abort only if there are comments available
 
-                                for (const p of data.edges.map((s) => s.node).filter(s => s)) {
+                                // replies of comments that aren't known are ignored
+                                for (const p of data.edges.map((s) => s.node).filter(s => s && !s.depth && !s.comment_parent)) {
                                     if (!comments.has(p.id)) {
-                                        if (comments.size >= max) {
+                                        if (topLevel >= max) {
                                             break;
                                         }
 
                                         const created = convertDate(p.created_time, true);
 
                                         if (counter.time(created)) {
-                                            const comment: FbComment = {
-                                                date: created,
-                                                name: get(p, ['author', 'name']),
-                                                profileUrl: get(p, ['author', 'url']) || null,
-                                                profilePicture: get(
-                                                    p,
-                                                    ['author', 'profile_picture_depth_0', 'uri'],
-                                                    get(p, ['author', 'profile_picture_depth_1_legacy', 'uri']),
-                                                ) || null,
-                                                text: get(p, ['body', 'text']) || null,
-                                                url: p.url,
-                                            };
+                                            const comment = toComment(p, null, 0);
 
                                             comments.set(p.id, comment);
+                                            topLevel++;
 
                                             await add(comment);
                                         }
@@ -866,7 +1260,7 @@ export const getPostComments = async (
 
                             const hasNext = get(data, ['page_info', 'has_next_page']);
 
-                            if (hasNext === false || comments.size >= max || counter.isOver()) {
+                            if (hasNext === false || topLevel >= max || counter.isOver()) {
                                 log.debug('Posts comments', { hasNext, size: comments.size, ...counter.stats() });
                                 finish.resolve();
                             }
@@ -935,16 +1329,16 @@ export const getPostComments = async (
                 setTimeout(tryLoad, 700);
             });
         }, {
-            load: CSS_SELECTORS.LOAD_COMMENTS,
-            container: CSS_SELECTORS.COMMENTS_CONTAINER,
-            commentOrder: CSS_SELECTORS.COMMENT_ORDER,
+            load: cssSelector('LOAD_COMMENTS'),
+            container: cssSelector('COMMENTS_CONTAINER'),
+            commentOrder: cssSelector('COMMENT_ORDER'),
         });
 
         if (loadCommentsClicked) {
             log.debug('Load comments clicked, waiting more', { url: currentUrl, mode });
 
             try {
-                await page.waitForSelector(CSS_SELECTORS.COMMENT_ORDER, {
+                await page.waitForSelector(cssSelector('COMMENT_ORDER'), {
                     timeout: 5000,
                     state: 'visible',
                 });
@@ -955,7 +1349,7 @@ export const getPostComments = async (
             control.postpone();
 
             if (mode !== 'RANKED_THREADED') {
-                const commentOrdering = await page.$$eval(CSS_SELECTORS.COMMENT_ORDER, async (els) => {
+                const commentOrdering = await page.$$eval(cssSelector('COMMENT_ORDER'), async (els) => {
                     if (!els.length) {
                         return false;
                     }
@@ -994,7 +1388,7 @@ export const getPostComments = async (
                     log.debug('Changed mode', { url: currentUrl });
 
                     try {
-                        await page.waitForSelector(CSS_SELECTORS.LOAD_MORE_COMMENTS, {
+                        await page.waitForSelector(cssSelector('LOAD_MORE_COMMENTS'), {
                             timeout: 5000,
                             state: 'visible',
                         });
@@ -1026,7 +1420,7 @@ export const getPostComments = async (
                                 return true;
                             }
 
-                            const clicked = await page.$$eval(CSS_SELECTORS.LOAD_MORE_COMMENTS, async (els) => {
+                            const clicked = await page.$$eval(cssSelector('LOAD_MORE_COMMENTS'), async (els) => {
                                 let clicks = 0;
 
                                 (els as HTMLAnchorElement[]).filter(s => !s.querySelector('i') && !s.closest('ul')).forEach((el) => {
@@ -1056,17 +1450,51 @@ export const getPostComments = async (
                                 log.info(`Got ${inRange}/${max} comments`, { url: currentUrl });
                             }
 
-                            await page.evaluate(() => {
-                                document.querySelectorAll('h6.accessible_elem ~ ul > li').forEach(s => s.remove());
-                            });
+                            // the reply buttons are needed later
+                            if (!withReplies) {
+                                await page.evaluate(() => {
+                                    document.querySelectorAll('h6.accessible_elem ~ ul > li').forEach(s => s.remove());
+                                });
+                            }
                         } catch (e) {
                             log.debug('scrollUntil', { e: e.message });
                         }
 
-                        return comments.size >= max || counter.isOver();
+                        return topLevel >= max || counter.isOver();
                     },
                 }),
             ]);
+
+            if (withReplies && !page.isClosed()) {
+                expandingReplies = true;
+
+                let noClicks = 0;
+
+                // comments that have more replies on Facebook, and haven't reached maxReplies
+                const hasPendingReplies = () => [...comments.values()].some(({ id, depth, replyCount }) => {
+                    return depth < maxDepth && (replies.get(id) ?? 0) < Math.min(maxReplies, replyCount);
+                });
+
+                // each click loads the replies of one comment, or more of them
+                for (let round = 0; round < 30 && noClicks < 3 && hasPendingReplies() && !page.isClosed(); round++) {
+                    const clicked = await page.$$eval(cssSelector('LOAD_REPLIES'), async (els) => {
+                        const buttons = (els as HTMLAnchorElement[]).filter((el) => !el.dataset.clicked);
+
+                        buttons.forEach((el) => {
+                            el.dataset.clicked = '1';
+                            el.click();
+                        });
+
+                        return buttons.length;
+                    });
+
+                    noClicks = clicked ? 0 : noClicks + 1;
+
+                    log.debug('Expanding replies', { url: currentUrl, clicked, size: comments.size });
+
+                    await sleep(1500);
+                }
+            }
         } else {
             log.debug('Load comment button not found', { url: currentUrl });
         }
@@ -1078,11 +1506,13 @@ export const getPostComments = async (
         }
     } finally {
         request.userData.comments = [...comments.entries()];
+        request.userData.feedbacks = [...feedbacks.entries()];
+        expandingReplies = false;
         page.off('response', interceptGrapQL);
         finish.resolve();
     }
 
-    log.info(`Got ${comments.size} comments in ${start() / 1000}s`, { url: currentUrl });
+    log.info(`Got ${topLevel} comments and ${comments.size - topLevel} replies in ${start() / 1000}s`, { url: currentUrl });
 
     return count;
 };
@@ -1095,16 +1525,16 @@ export const getServices = async (page: Page): Promise<FbService[]> => {
 
     await scrollUntil(page, {
         sleepMillis,
-        selectors: [CSS_SELECTORS.SERVICES],
+        selectors: [cssSelector('SERVICES')],
         maybeStop: async ({ count, bodyChanged, scrollChanged }) => {
             await sleep(sleepMillis);
 
-            return (count > 2 && !bodyChanged && !scrollChanged) || !(await page.$(CSS_SELECTORS.SERVICES));
+            return (count > 2 && !bodyChanged && !scrollChanged) || !(await page.$(cssSelector('SERVICES')));
         },
     });
 
     try {
-        await page.waitForSelector(CSS_SELECTORS.SERVICES, {
+        await page.waitForSelector(cssSelector('SERVICES'), {
             timeout: 5000,
             state: 'attached',
         });
@@ -1112,7 +1542,7 @@ export const getServices = async (page: Page): Promise<FbService[]> => {
         log.debug('getServices', { message: e.message });
     }
 
-    return (await page.$$eval<FbService[]>(CSS_SELECTORS.SERVICES, (els) => {
+    return (await page.$$eval<FbService[]>(cssSelector('SERVICES'), (els) => {
         return els.map((el) => {
             const text = el.querySelector<HTMLSpanElement>('div > span');
 
@@ -1125,3 +1555,484 @@ export const getServices = async (page: Page): Promise<FbService[]> => {
         });
     })).filter((s) => s.text !== null && s.title !== null);
 };
+
+/**
+ * Scroll the page and collect unique ids from the links, until there
+ * are `max` of them or nothing else loads
+ */
+const collectLinkIds = async (page: Page, {
+    selector, max, ids, extract,
+}: {
+    selector: string;
+    max: number;
+    ids: Set<string>;
+    extract: (href: string) => string | null;
+}) => {
+    const getIds = async () => {
+        const hrefs = await page.$$eval(selector, (els) => els.map((el) => (el as HTMLAnchorElement).href));
+
+        for (const href of hrefs) {
+            const id = extract(href);
+
+            if (id && ids.size < max) {
+                ids.add(id);
+            }
+        }
+    };
+
+    await scrollUntil(page, {
+        sleepMillis: 1000,
+        selectors: [selector],
+        maybeStop: async ({ count, bodyChanged, scrollChanged }) => {
+            try {
+                await getIds();
+            } catch (e) {
+                log.debug('collectLinkIds', { message: e.message });
+            }
+
+            return ids.size >= max || (count > 2 && !bodyChanged && !scrollChanged);
+        },
+    });
+
+    return ids;
+};
+
+/**
+ * Get the event urls from /events, upcoming events first and then the
+ * past ones. Each event is read on its own EVENT label
+ */
+export const getEventUrls = async (page: Page, {
+    max, username, requestQueue, request,
+}: {
+    requestQueue: Apify.RequestQueue,
+    username: string;
+    max?: number;
+    request: Apify.Request;
+}) => {
+    if (!max) {
+        return 0;
+    }
+
+    const ids = new Set<string>(request.userData.events);
+    const currentUrl = page.url();
+    const start = stopwatch();
+
+    try {
+        await collectLinkIds(page, {
+            selector: cssSelector('EVENTS'),
+            max,
+            ids,
+            extract: (href) => href.match(/\/events\/(\d+)/)?.[1] ?? null,
+        });
+    } finally {
+        request.userData.events = [...ids];
+    }
+
+    for (const id of ids) {
+        await requestQueue.addRequest({
+            url: `${DESKTOP_ADDRESS}/events/${id}/`,
+            uniqueKey: `event-${id}`,
+            userData: {
+                override: request.userData.override,
+                label: LABELS.EVENT,
+                eventId: id,
+                useMobile: false,
+                username,
+            },
+        });
+    }
+
+    log.info(`Got ${ids.size} events in ${start() / 1000}s`, { url: currentUrl });
+
+    return ids.size;
+};
+
+/**
+ * Get the event details from the event page. The dates and the venue
+ * come from the LD+JSON, the counts, timezone and tickets from the scripts
+ */
+export const getEventInfo = async (page: Page, request: Apify.Request): Promise<FbEvent> => {
+    const { eventId } = request.userData;
+
+    const [ld, { html, title }] = await Promise.all([
+        pageSelectors.ld(page, 3000).catch(() => []),
+        page.evaluate(async ({ id, titleSelector }) => ({
+            html: [...document.querySelectorAll('script:not([nonce],[type])')]
+                .filter((s) => s.innerHTML.includes(id))
+                .map((s) => s.innerHTML)
+                .join('\n'),
+            title: document.querySelector<HTMLMetaElement>(titleSelector)?.content || null,
+        }), { id: eventId, titleSelector: cssSelector('PAGE_NAME') }),
+    ]);
+
+    const event = (ld as unknown as FbLdEvent[]).find((item) => /Event$/.test(item?.['@type'] ?? ''));
+
+    // the scripts are either JSON or plain object literals
+    const count = (...keys: string[]) => {
+        const counts = keys.flatMap((key) => [...html.matchAll(new RegExp(`"?${key}"?:\\{?"?(?:count"?:)?(\\d+)`, 'g'))])
+            .map(([, value]) => +value);
+
+        return counts.length ? Math.max(...counts) : null;
+    };
+
+    const text = (key: string) => {
+        const value = html.match(new RegExp(`"?${key}"?:"((?:[^"\\\\]|\\\\.)*)"`))?.[1];
+
+        try {
+            return value ? JSON.parse(`"${value}"`) as string : null;
+        } catch (e) {
+            return null;
+        }
+    };
+
+    const { address } = event?.location ?? {};
+    const startDate = event?.startDate ?? null;
+    const endDate = event?.endDate ?? null;
+
+    return {
+        id: eventId ?? null,
+        title: event?.name ?? title,
+        url: `${DESKTOP_ADDRESS}/events/${eventId}/`,
+        startDate,
+        endDate,
+        timezone: text('timezone'),
+        venue: event?.location?.name || address ? {
+            name: event?.location?.name || null,
+            address: (typeof address === 'object'
+                ? [address.streetAddress, address.addressLocality, address.addressRegion, address.postalCode, address.addressCountry]
+                    .filter((s) => s)
+                    .join(', ')
+                : address) || null,
+            url: event?.location?.url ?? null,
+        } : null,
+        ticketUrl: event?.offers?.url ?? text('event_buy_ticket_url') ?? text('ticket_url'),
+        interested: count('interested_count', 'event_connected_users_interested'),
+        going: count('going_count', 'event_connected_users_going', 'event_connected_users_went'),
+        past: !!(endDate ?? startDate) && new Date(endDate ?? startDate!).getTime() < Date.now(),
+    };
+};
+
+/**
+ * Album and photo ids from the many photo url formats, like
+ * /page/photos/a.1/2/, /photo.php?fbid=2&set=a.1 or /media/set/?set=a.1
+ */
+export const extractPhotoIds = (url: string) => {
+    const parsed = new URL(url, DESKTOP_ADDRESS);
+
+    return {
+        albumId: parsed.searchParams.get('set')?.match(/^a\.(\d+)/)?.[1]
+            || parsed.pathname.match(/\/(?:photos\/a\.|albums\/)(\d+)/)?.[1]
+            || null,
+        photoId: parsed.searchParams.get('fbid')
+            || parsed.pathname.match(/\/photos\/(?:a\.\d+\/)?(\d+)/)?.[1]
+            || null,
+    };
+};
+
+/**
+ * Get the albums from /photos. Each album is read on its own ALBUM label
+ */
+export const getAlbumUrls = async (page: Page, {
+    max, username, requestQueue, request,
+}: {
+    requestQueue: Apify.RequestQueue,
+    username: string;
+    max?: number;
+    request: Apify.Request;
+}) => {
+    if (!max) {
+        return 0;
+    }
+
+    const ids = new Set<string>(request.userData.albums);
+    const start = stopwatch();
+
+    try {
+        await collectLinkIds(page, {
+            selector: cssSelector('ALBUMS'),
+            max,
+            ids,
+            // photos inside the albums have both ids
+            extract: (href) => {
+                const { albumId, photoId } = extractPhotoIds(href);
+
+                return photoId ? null : albumId;
+            },
+        });
+    } finally {
+        request.userData.albums = [...ids];
+    }
+
+    for (const id of ids) {
+        await requestQueue.addRequest({
+            url: `${DESKTOP_ADDRESS}/media/set/?set=a.${id}&type=3`,
+            uniqueKey: `album-${id}`,
+            userData: {
+                override: request.userData.override,
+                label: LABELS.ALBUM,
+                albumId: id,
+                useMobile: false,
+                username,
+            },
+        });
+    }
+
+    log.info(`Got ${ids.size} albums in ${start() / 1000}s`, { url: page.url() });
+
+    return ids.size;
+};
+
+/**
+ * The username of the page that owns the photo or album, for urls
+ * that don't have it, like /photo.php?fbid=2 or /media/set/?set=a.1.
+ * Read from the og:url, or the url it was redirected to
+ */
+export const getMediaOwner = async (page: Page) => {
+    const urls = [
+        await page.$eval(cssSelector('VALID_PAGE'), (meta) => (meta as HTMLMetaElement).content).catch(() => null),
+        page.url(),
+    ];
+
+    for (const url of urls) {
+        const parsed = url ? new URL(url, DESKTOP_ADDRESS) : null;
+
+        if (parsed?.hostname.includes('facebook.com') && parsed.pathname.length > 1) {
+            const username = extractUsernameFromUrl(`${parsed.origin}${parsed.pathname}`);
+
+            if (!NON_PAGE_PATHS.includes(username)) {
+                return username;
+            }
+        }
+    }
+
+    return null;
+};
+
+/**
+ * Get the album information, and enqueue up to `max` of its
+ * photos, each one read on its own PHOTO label
+ */
+export const getAlbum = async (page: Page, {
+    max, username, requestQueue, request,
+}: {
+    requestQueue: Apify.RequestQueue,
+    username: string;
+    max?: number;
+    request: Apify.Request;
+}): Promise<FbAlbum> => {
+    const { albumId } = request.userData;
+
+    const { name, html } = await page.evaluate(async ({ id, titleSelector }) => ({
+        name: document.querySelector<HTMLMetaElement>(titleSelector)?.content
+            || document.querySelector('h1')?.textContent
+            || null,
+        html: [...document.querySelectorAll('script:not([nonce],[type])')]
+            .filter((s) => s.innerHTML.includes(id))
+            .map((s) => s.innerHTML)
+            .join('\n'),
+    }), { id: albumId, titleSelector: cssSelector('PAGE_NAME') });
+
+    const photoCount = html.match(/"?(?:photo_count|media_count)"?:\{?"?(?:count"?:)?(\d+)/)?.[1];
+    const ids = new Set<string>(request.userData.photos);
+
+    if (max) {
+        try {
+            await collectLinkIds(page, {
+                selector: cssSelector('ALBUM_PHOTOS'),
+                max,
+                ids,
+                extract: (href) => extractPhotoIds(href).photoId,
+            });
+        } finally {
+            request.userData.photos = [...ids];
+        }
+    }
+
+    for (const id of ids) {
+        await requestQueue.addRequest({
+            url: `${DESKTOP_ADDRESS}/photo.php?fbid=${id}&set=a.${albumId}`,
+            uniqueKey: `photo-${id}`,
+            userData: {
+                override: request.userData.override,
+                label: LABELS.PHOTO,
+                albumId,
+                postId: id,
+                useMobile: false,
+                username,
+            },
+        });
+    }
+
+    log.info(`Got ${ids.size} photos from album ${albumId}`, { url: page.url() });
+
+    return {
+        id: albumId,
+        name: name?.trim() || null,
+        url: `${DESKTOP_ADDRESS}/media/set/?set=a.${albumId}`,
+        photoCount: photoCount ? +photoCount : null,
+    };
+};
+
+/**
+ * Get the caption, date, full image and counts from the photo page
+ */
+export const getPhotoInfo = async (page: Page, request: Apify.Request): Promise<FbPhoto> => {
+    const { postId, albumId } = request.userData;
+
+    const [{ comments, reactions }, info] = await Promise.all([
+        getPostInfoFromScript(page, request),
+        page.evaluate(async ({ captionSelector, imageSelector }) => {
+            const caption = document.querySelector<HTMLElement>(captionSelector);
+
+            if (caption) {
+                window.unc(caption);
+            }
+
+            return {
+                caption: caption?.innerText.trim()
+                    || document.querySelector<HTMLMetaElement>('meta[property="og:description"]')?.content
+                    || null,
+                date: document.querySelector<HTMLElement>('abbr[data-utime]')?.dataset.utime ?? null,
+                image: document.querySelector<HTMLImageElement>(imageSelector)?.src
+                    || document.querySelector<HTMLMetaElement>('meta[property="og:image"]')?.content
+                    || null,
+            };
+        }, { captionSelector: cssSelector('PHOTO_CAPTION'), imageSelector: cssSelector('THEATER_IMAGE') }),
+    ]);
+
+    return {
+        id: postId,
+        albumId: albumId ?? null,
+        url: `${DESKTOP_ADDRESS}/photo.php?fbid=${postId}`,
+        caption: info.caption,
+        date: info.date ? convertDate(info.date, true) : null,
+        image: info.image,
+        reactions,
+        comments,
+    };
+};
+
+/**
+ * Get the videos from /videos, newest first. Each video is read on
+ * its own VIDEO label. Videos that are known as posts are skipped
+ */
+export const getVideoUrls = async (page: Page, {
+    max, username, requestQueue, request, isPost = () => false,
+}: {
+    requestQueue: Apify.RequestQueue,
+    username: string;
+    max?: number;
+    request: Apify.Request;
+    isPost?: (videoId: string) => boolean;
+}) => {
+    if (!max) {
+        return 0;
+    }
+
+    const ids = new Set<string>(request.userData.videos);
+    const start = stopwatch();
+
+    try {
+        await collectLinkIds(page, {
+            selector: cssSelector('VIDEOS'),
+            max,
+            ids,
+            extract: (href) => {
+                const id = extractVideoId(href);
+
+                return id && !isPost(id) ? id : null;
+            },
+        });
+    } finally {
+        request.userData.videos = [...ids];
+    }
+
+    for (const id of ids) {
+        await requestQueue.addRequest({
+            url: `${DESKTOP_ADDRESS}/${username}/videos/${id}/`,
+            uniqueKey: `video-${id}`,
+            userData: {
+                override: request.userData.override,
+                label: LABELS.VIDEO,
+                postId: id,
+                useMobile: false,
+                username,
+            },
+        });
+    }
+
+    log.info(`Got ${ids.size} videos in ${start() / 1000}s`, { url: page.url() });
+
+    return ids.size;
+};
+
+/**
+ * Get the title, description, date, stats and counts from the video page
+ */
+export const getVideoInfo = async (page: Page, request: Apify.Request): Promise<FbVideo> => {
+    const { postId, username } = request.userData;
+
+    const [{ comments, reactions }, info] = await Promise.all([
+        getPostInfoFromScript(page, request),
+        page.evaluate(async ({ id, titleSelector, descriptionSelector }) => ({
+            html: [...document.querySelectorAll('script:not([nonce],[type])')]
+                .filter((s) => s.innerHTML.includes(id))
+                .map((s) => s.innerHTML)
+                .join('\n'),
+            title: document.querySelector<HTMLMetaElement>(titleSelector)?.content || null,
+            description: document.querySelector<HTMLMetaElement>(descriptionSelector)?.content || null,
+            date: document.querySelector<HTMLElement>('abbr[data-utime]')?.dataset.utime ?? null,
+        }), { id: postId, titleSelector: cssSelector('PAGE_NAME'), descriptionSelector: cssSelector('META_DESCRIPTION') }),
+    ]);
+
+    const date = info.date ?? info.html.match(/"?(?:publish_time|created_time)"?:(\d+)/)?.[1];
+
+    return {
+        id: postId,
+        url: `${DESKTOP_ADDRESS}/${username}/videos/${postId}/`,
+        title: info.title?.trim() || null,
+        description: info.description?.trim() || null,
+        date: date ? convertDate(date, true) : null,
+        ...getVideoStatsFromScript(info.html),
+        reactions,
+        comments,
+    };
+};
+
+/**
+ * The "related pages" and "pages liked by this page" links of the page
+ * home, only the ones that are pages, as desktop urls without parameters
+ */
+export const getRelatedPages = async (page: Page) => {
+    const links = await page.evaluate(async ({ related, liked }) => {
+        const hrefs = (selector: string) => [...document.querySelectorAll<HTMLAnchorElement>(selector)].map((a) => a.href);
+
+        return [
+            ...hrefs(related).map((url) => ({ url, relation: 'related' })),
+            ...hrefs(liked).map((url) => ({ url, relation: 'liked' })),
+        ];
+    }, { related: cssSelector('RELATED_PAGES'), liked: cssSelector('LIKED_PAGES') });
+
+    const pages = new Map<string, { url: string; relation: FbPageRelation }>();
+
+    for (const { url, relation } of links) {
+        try {
+            const parsed = new URL(profileToPageUrl(url));
+            const [first] = parsed.pathname.split('/').filter((s) => s);
+
+            if (!first || NON_PAGE_PATHS.includes(first) || getUrlLabel(parsed.toString()) !== LABELS.PAGE) {
+                continue; // eslint-disable-line no-continue
+            }
+
+            const pageUrl = `${DESKTOP_ADDRESS}/${first}`;
+
+            if (!pages.has(`${relation}-${pageUrl}`)) {
+                pages.set(`${relation}-${pageUrl}`, { url: pageUrl, relation: relation as FbPageRelation });
+            }
+        } catch (e) {
+            log.debug('getRelatedPages', { url, message: e.message });
+        }
+    }
+
+    return [...pages.values()];
+};
@@ -0,0 +1,114 @@
+import escapeStringRegexp = require('escape-string-regexp');
+import { findPhoneNumbersInText, getCountries, isSupportedCountry } from 'libphonenumber-js/max';
+import type { CountryCode } from 'libphonenumber-js/max';
+import { POSTAL_CODE_COUNTRIES, US_STATES } from './constants';
+import { normalizeLocaleText as normalize, toIntlLocale, memoizeByLanguage } from './functions';
+import type { FbPage, FbPhone } from './definitions';
+
+/**
+ * The part of Intl.DisplayNames that is used, it isn't on the es2018 typings
+ */
+interface RegionNames {
+    of(code: string): string | undefined;
+}
+
+const { DisplayNames } = Intl as typeof Intl & {
+    DisplayNames: new (locales: string[], options: { type: 'region', fallback: 'none' }) => RegionNames;
+};
+
+/**
+ * Country names in the language and in English, to find them
+ * on the address, like "Prague, Czech Republic". Created once per language
+ */
+const countryNames = memoizeByLanguage((language) => {
+    const names = new Map<string, CountryCode>();
+
+    for (const locale of [toIntlLocale(language), 'en-US']) {
+        const displayNames = new DisplayNames([locale], { type: 'region', fallback: 'none' });
+
+        for (const country of getCountries()) {
+            const name = displayNames.of(country);
+
+            if (name && !names.has(normalize(name))) {
+                names.set(normalize(name), country);
+            }
+        }
+    }
+
+    const alternation = [...names.keys()].sort((a, b) => b.length - a.length).map(escapeStringRegexp).join('|');
+
+    return {
+        names,
+        pattern: new RegExp(`(?<![\\p{L}\\p{M}])(${alternation})(?![\\p{L}\\p{M}])`, 'u'),
+    };
+});
+
+/**
+ * Creates the phone numbers parser for the language.
+ *
+ * Numbers without the international prefix are read as numbers from
+ * the country of the page address, found by the country name or the postal
+ * code format. When the address doesn't tell, the `countryCode` country is
+ * used, then the country of `language`
+ */
+export const createPhoneParser = (language: string, countryCode?: string | null) => {
+    const { names, pattern } = countryNames(language);
+    const fallback = [countryCode, toIntlLocale(language).split('-')[1]]
+        .map((country) => `${country ?? ''}`.toUpperCase())
+        .find((country): country is CountryCode => isSupportedCountry(country));
+
+    /**
+     * The country of the address, or the fallback country
+     */
+    const inferCountry = (address: Partial<FbPage['address']> | undefined): CountryCode | undefined => {
+        const { city, region, street, postalCode } = address ?? {};
+        const named = normalize([city, region, street].filter((s) => s).join(', ')).match(pattern)?.[1];
+
+        if (named) {
+            return names.get(named);
+        }
+
+        const postal = `${postalCode ?? ''}`.trim();
+
+        if (postal) {
+            const [, country] = POSTAL_CODE_COUNTRIES.find(([format]) => format.test(postal)) ?? [];
+
+            if (country && isSupportedCountry(country)) {
+                return country;
+            }
+
+            if (/^\d{5}$/.test(postal) && US_STATES.includes(`${region ?? ''}`.trim().toUpperCase())) {
+                return 'US';
+            }
+        }
+
+        return fallback;
+    };
+
+    /**
+     * Every valid number on the texts, without repeating
+     */
+    return (texts: Array<string | null | undefined>, address?: Partial<FbPage['address']>): FbPhone[] => {
+        const defaultCountry = inferCountry(address);
+        const phones = new Map<string, FbPhone>();
+
+        for (const text of texts) {
+            if (!text) {
+                continue; // eslint-disable-line no-continue
+            }
+
+            for (const { number, startsAt, endsAt } of findPhoneNumbersInText(text, { defaultCountry })) {
+                if (!phones.has(number.number)) {
+                    phones.set(number.number, {
+                        number: number.number,
+                        type: number.getType() ?? 'UNKNOWN',
+                        country: number.country ?? null,
+                        raw: text.slice(startsAt, endsAt),
+                    });
+                }
+            }
+        }
+
+        return [...phones.values()];
+    };
+};
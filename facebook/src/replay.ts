@@ -0,0 +1,337 @@
+import Apify from 'apify';
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import type { Browser, Page } from 'playwright';
+import { MOBILE_HOST } from './constants';
+import { cssSelector, exposeUnc, minMaxDates } from './functions';
+import {
+    getPageInfo,
+    getFieldInfos,
+    getPostContent,
+    getPostComments,
+    getPostInfoFromScript,
+    getReviews,
+    getServices,
+    getEventInfo,
+} from './page';
+import type { FbComment, FbCommentsMode } from './definitions';
+
+/**
+ * A saved page, in its own folder, with a `fixture.json` file
+ */
+export interface ReplayFixture {
+    /**
+     * The url the snapshot was saved from
+     */
+    url: string;
+    /**
+     * One of `EXTRACTORS`
+     */
+    extractor: string;
+    /**
+     * The snapshot was saved from the mobile version
+     */
+    useMobile?: boolean;
+    /**
+     * HTML file, relative to the fixture folder. Defaults to `page.html`
+     */
+    html?: string;
+    /**
+     * Recorded GraphQL responses, served in order, relative to the fixture folder
+     */
+    graphql?: string[];
+    /**
+     * Expected output JSON file, relative to the fixture folder. Defaults to `expected.json`
+     */
+    expected?: string;
+    /**
+     * Extractor options, like `max`, `maxReplies` and `mode`
+     */
+    options?: { max?: number; maxReplies?: number; maxDepth?: number; mode?: FbCommentsMode };
+    userData?: Record<string, any>;
+    /**
+     * When the fixture was saved from the live page with `--record`
+     */
+    recordedAt?: string;
+}
+
+type Extractor = (page: Page, request: Apify.Request, options: NonNullable<ReplayFixture['options']>) => Promise<any>;
+
+/**
+ * The page.ts extractors that can be replayed, with the
+ * same parameters the crawler uses
+ */
+export const EXTRACTORS: Record<string, Extractor> = {
+    getPageInfo: (page) => getPageInfo(page),
+    getFieldInfos: (page) => getFieldInfos(page, {}),
+    getPostContent: (page) => getPostContent(page),
+    getPostInfoFromScript: (page, request) => getPostInfoFromScript(page, request),
+    getReviews: (page, request, { max = 10 }) => getReviews(page, {
+        max,
+        date: minMaxDates({}),
+        request,
+    }),
+    getServices: (page) => getServices(page),
+    getEventInfo: (page, request) => getEventInfo(page, request),
+    getPostComments: async (page, request, { max = 10, maxReplies, maxDepth, mode }) => {
+        const comments: FbComment[] = [];
+
+        const count = await getPostComments(page, {
+            max,
+            maxReplies,
+            maxDepth,
+            mode,
+            date: minMaxDates({}),
+            request,
+            add: async (comment) => {
+                comments.push(comment);
+            },
+        });
+
+        return { count, comments };
+    },
+};
+
+/**
+ * List the differences between the expected and the actual
+ * values, as JSON paths
+ */
+export const diffJson = (expected: any, actual: any, at = '$'): string[] => {
+    if (typeof expected !== 'object' || typeof actual !== 'object' || expected === null || actual === null) {
+        return expected === actual ? [] : [`${at}: expected ${JSON.stringify(expected)}, got ${JSON.stringify(actual)}`];
+    }
+
+    if (Array.isArray(expected) !== Array.isArray(actual)) {
+        return [`${at}: expected ${Array.isArray(expected) ? 'array' : 'object'}`];
+    }
+
+    const keys = new Set([...Object.keys(expected), ...Object.keys(actual)]);
+
+    return [...keys].flatMap((key) => diffJson(expected[key], actual[key], `${at}.${key}`));
+};
+
+/**
+ * Load the saved HTML in the page, serving the recorded GraphQL responses
+ * in order when the comment buttons are clicked. Everything else is
+ * aborted, so it never goes online
+ */
+export const loadFixture = async (page: Page, dir: string, fixture: ReplayFixture) => {
+    const html = await fs.readFile(path.join(dir, fixture.html ?? 'page.html'), 'utf8');
+    const graphql = await Promise.all((fixture.graphql ?? []).map((file) => fs.readFile(path.join(dir, file), 'utf8')));
+
+    await page.route('**/*', async (route) => {
+        const req = route.request();
+
+        if (req.isNavigationRequest() && req.frame() === page.mainFrame()) {
+            await route.fulfill({ status: 200, contentType: 'text/html', body: html });
+        } else if (req.url().includes('api/graphql/')) {
+            const body = graphql.shift();
+
+            await route.fulfill(body ? { status: 200, contentType: 'application/json', body } : { status: 404 });
+        } else {
+            await route.abort();
+        }
+    });
+
+    await exposeUnc(page);
+
+    // the saved page has no working scripts, so clicking to load
+    // comments requests the next recorded response instead
+    await page.addInitScript(({ buttons }: { buttons: string }) => {
+        document.addEventListener('click', (e) => {
+            if ((e.target as HTMLElement | null)?.closest?.(buttons)) {
+                e.preventDefault();
+                fetch('/api/graphql/', { method: 'POST' }).catch(() => {}); // eslint-disable-line @typescript-eslint/no-empty-function
+            }
+        }, true);
+    }, { buttons: `${cssSelector('LOAD_COMMENTS')},${cssSelector('LOAD_MORE_COMMENTS')}` });
+
+    await page.goto(fixture.url, { waitUntil: 'load' });
+};
+
+const newContext = (browser: Browser, useMobile?: boolean) => browser.newContext({
+    viewport: {
+        height: useMobile ? 1520 : 1080,
+        width: useMobile ? 720 : 1920,
+    },
+    hasTouch: !!useMobile,
+    isMobile: !!useMobile,
+    bypassCSP: true,
+});
+
+/**
+ * Save a fixture from the live page: the HTML as it was served, the
+ * GraphQL responses the extractor caused, in order, and its output as
+ * the expected one
+ */
+export const recordFixture = async (browser: Browser, dir: string, fixture: ReplayFixture) => {
+    const extractor = EXTRACTORS[fixture.extractor];
+
+    if (!extractor) {
+        throw new Error(`Unknown extractor "${fixture.extractor}"`);
+    }
+
+    const context = await newContext(browser, fixture.useMobile);
+
+    try {
+        const page = await context.newPage();
+        const request = new Apify.Request({ url: fixture.url, userData: { ...fixture.userData } });
+        const graphql: Array<Promise<string>> = [];
+
+        page.on('response', (res) => {
+            if (res.url().includes('api/graphql/')) {
+                graphql.push(res.text().catch(() => ''));
+            }
+        });
+
+        await exposeUnc(page);
+
+        const response = await page.goto(fixture.url, { waitUntil: 'load' });
+
+        if (!response?.ok()) {
+            throw new Error(`Got status ${response?.status()} from ${fixture.url}`);
+        }
+
+        const html = await response.text();
+        // only the responses that came after the page loaded are from the extractor
+        const before = graphql.length;
+        const actual = JSON.parse(JSON.stringify(await extractor(page, request, fixture.options ?? {}) ?? null));
+        const bodies = (await Promise.all(graphql.slice(before))).filter((body) => body);
+
+        await fs.mkdir(dir, { recursive: true });
+        await fs.writeFile(path.join(dir, 'page.html'), html);
+
+        for (const [i, body] of bodies.entries()) {
+            await fs.writeFile(path.join(dir, `graphql-${i + 1}.json`), body);
+        }
+
+        await fs.writeFile(path.join(dir, 'expected.json'), JSON.stringify(actual, null, 4));
+        await fs.writeFile(path.join(dir, 'fixture.json'), JSON.stringify({
+            ...fixture,
+            recordedAt: new Date().toISOString(),
+            graphql: bodies.length ? bodies.map((_, i) => `graphql-${i + 1}.json`) : undefined,
+        }, null, 4));
+    } finally {
+        await context.close();
+    }
+};
+
+/**
+ * Run the extractor of one fixture folder, returns the differences
+ * from the expected output. When `update` is set, the current output
+ * becomes the expected one
+ */
+export const replayFixture = async (browser: Browser, dir: string, update = false) => {
+    const fixture = JSON.parse(await fs.readFile(path.join(dir, 'fixture.json'), 'utf8')) as ReplayFixture;
+    const extractor = EXTRACTORS[fixture.extractor];
+
+    if (!extractor) {
+        throw new Error(`Unknown extractor "${fixture.extractor}" on ${dir}`);
+    }
+
+    const context = await newContext(browser, fixture.useMobile);
+
+    try {
+        const page = await context.newPage();
+        const request = new Apify.Request({ url: fixture.url, userData: { ...fixture.userData } });
+
+        await loadFixture(page, dir, fixture);
+
+        // normalize dates and undefined the same way the dataset does
+        const actual = JSON.parse(JSON.stringify(await extractor(page, request, fixture.options ?? {}) ?? null));
+        const expectedFile = path.join(dir, fixture.expected ?? 'expected.json');
+
+        if (update) {
+            await fs.writeFile(expectedFile, JSON.stringify(actual, null, 4));
+            return [];
+        }
+
+        return diffJson(JSON.parse(await fs.readFile(expectedFile, 'utf8')), actual);
+    } finally {
+        await context.close();
+    }
+};
+
+/**
+ * Replay every fixture folder inside the given folder, offline,
+ * or record a new fixture folder from the live page
+ *
+ * @example
+ *   npm run replay -- fixtures
+ *   npm run replay -- fixtures --update
+ *   npm run replay -- fixtures/services --record https://m.facebook.com/pg/pagename/services getServices
+ */
+const run = async () => {
+    const args = process.argv.slice(2);
+    const update = args.includes('--update');
+    const [root, url, extractor] = args.filter((arg) => !arg.startsWith('--'));
+
+    if (!root) {
+        throw new Error('Usage: npm run replay -- <fixtures folder> [--update] | <fixture folder> --record <url> <extractor>');
+    }
+
+    if (args.includes('--record')) {
+        if (!url || !extractor) {
+            throw new Error('Usage: npm run replay -- <fixture folder> --record <url> <extractor>');
+        }
+
+        const browser = await Apify.launchPlaywright({ launchOptions: { headless: true } });
+
+        try {
+            await recordFixture(browser, root, {
+                url,
+                extractor,
+                useMobile: new URL(url).hostname === MOBILE_HOST,
+            });
+        } finally {
+            await browser.close();
+        }
+
+        process.stdout.write(`RECORDED ${root}\n`);
+        return;
+    }
+
+    const dirs: string[] = [];
+
+    for (const entry of await fs.readdir(root, { withFileTypes: true })) {
+        if (entry.isDirectory()) {
+            dirs.push(path.join(root, entry.name));
+        }
+    }
+
+    const browser = await Apify.launchPlaywright({ launchOptions: { headless: true } });
+    let failed = 0;
+
+    try {
+        for (const dir of dirs) {
+            try {
+                const differences = await replayFixture(browser, dir, update);
+
+                if (differences.length) {
+                    failed++;
+                    process.stdout.write(`FAIL ${dir}\n${differences.map((line) => `    ${line}`).join('\n')}\n`);
+                } else {
+                    process.stdout.write(`${update ? 'UPDATED' : 'OK'} ${dir}\n`);
+                }
+            } catch (e) {
+                failed++;
+                process.stdout.write(`ERROR ${dir}: ${e.message}\n`);
+            }
+        }
+    } finally {
+        await browser.close();
+    }
+
+    process.stdout.write(`${dirs.length - failed}/${dirs.length} fixtures passed\n`);
+
+    if (failed) {
+        process.exitCode = 1;
+    }
+};
+
+if (require.main === module) {
+    run().catch((e) => {
+        process.stderr.write(`${e.message}\n`);
+        process.exitCode = 1;
+    });
+}
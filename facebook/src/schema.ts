@@ -0,0 +1,246 @@
+import Apify from 'apify';
+import Ajv from 'ajv';
+import { OUTPUT_VERSIONS } from './constants';
+import { getPostType, extractPostIdFromUrl } from './functions';
+import { extractEntities } from './entities';
+import { createNumberParser } from './numbers';
+import type { FbPage, FbRecordType } from './definitions';
+
+import schema = require('./output-schema.json');
+
+const { log } = Apify.utils;
+
+/**
+ * Validates the PAGE output items against the JSON Schema generated from
+ * `FbPage` (`npm run schema`). Violations are only reported, the items are
+ * still output, and saved on `SCHEMA_VIOLATIONS` record at the end.
+ *
+ * When not enabled, there are never violations
+ */
+export const outputValidator = ({ enabled, maxReports = 100 }: {
+    enabled: boolean;
+    maxReports?: number;
+}) => {
+    const ajv = new Ajv({ allErrors: true, strict: false });
+    const validate = ajv.compile(schema);
+    const reports: Array<{ pageUrl: string | null, violations: string[] }> = [];
+    let invalid = 0;
+
+    return {
+        /**
+         * Returns the list of violations, empty if valid. Only the
+         * page items are checked, the schema is for `FbPage`
+         */
+        check(data: Partial<FbPage>, type: FbRecordType = 'page') {
+            if (!enabled || type !== 'page' || validate(data)) {
+                return [];
+            }
+
+            const violations = (validate.errors ?? []).map(({ instancePath, message }) => `${instancePath || '/'} ${message}`);
+
+            invalid++;
+
+            log.warning(`Output item doesn't match the schema version ${OUTPUT_VERSIONS.PAGE}`, {
+                pageUrl: data.pageUrl,
+                violations: violations.slice(0, 10),
+            });
+
+            if (reports.length < maxReports) {
+                reports.push({
+                    pageUrl: data.pageUrl ?? null,
+                    violations,
+                });
+            }
+
+            return violations;
+        },
+        async persistState() {
+            if (!invalid) {
+                return;
+            }
+
+            await Apify.setValue('SCHEMA_VIOLATIONS', {
+                version: OUTPUT_VERSIONS.PAGE,
+                invalid,
+                reports,
+            });
+        },
+    };
+};
+
+export interface MigrateOptions {
+    /**
+     * The `language` input of the run that output the items,
+     * for the text that is parsed
+     */
+    language?: string;
+}
+
+type Migration = (data: Record<string, any>, options: MigrateOptions) => Record<string, any>;
+
+/**
+ * The GraphQL id of comments from before 6.0.0, from the `comment_id`
+ * of their url, like "Y29tbWVudDoxMjNfNDU2" for "comment:123_456"
+ */
+const legacyCommentId = (comment: Record<string, any>, postUrl?: string | null) => {
+    try {
+        const url = new URL(comment.url);
+        const commentId = url.searchParams.get('comment_id');
+        const postId = extractPostIdFromUrl(comment.url) || (postUrl ? extractPostIdFromUrl(postUrl) : null);
+
+        return commentId && postId ? Buffer.from(`comment:${postId}_${commentId}`).toString('base64') : null;
+    } catch (e) {
+        return null;
+    }
+};
+
+/**
+ * Upgrades a PAGE output item from the version on the key
+ * to the next one, following the changes on CHANGELOG.md
+ */
+export const MIGRATIONS: Record<number, Migration> = {
+    // 1.0.0: renamed fields to allow `unwind`
+    1: ({ url, posts, ...data }) => ({
+        ...data,
+        pageUrl: data.pageUrl ?? url,
+        posts: (posts ?? []).map(({ text, date, url: postUrl, stats, comments, images, links, ...post }: Record<string, any>) => ({
+            ...post,
+            postText: post.postText ?? text,
+            postDate: post.postDate ?? date,
+            postUrl: post.postUrl ?? postUrl,
+            postStats: post.postStats ?? stats,
+            postComments: post.postComments ?? comments,
+            postImages: post.postImages ?? images ?? [],
+            postLinks: post.postLinks ?? links ?? [],
+        })),
+    }),
+    // 4.1.0: reactions breakdown on post stats
+    2: (data) => ({
+        ...data,
+        posts: (data.posts ?? []).map((post: Record<string, any>) => ({
+            ...post,
+            postStats: {
+                comments: 0,
+                reactions: 0,
+                shares: 0,
+                ...post.postStats,
+                reactionsBreakdown: post.postStats?.reactionsBreakdown ?? {},
+            },
+        })),
+    }),
+    // 5.0.0: comments and reviews carry their totals
+    3: (data) => ({
+        ...data,
+        services: data.services ?? [],
+        reviews: Array.isArray(data.reviews) ? {
+            average: null,
+            count: data.reviews.length,
+            reviews: data.reviews,
+        } : data.reviews,
+        posts: (data.posts ?? []).map((post: Record<string, any>) => ({
+            ...post,
+            postComments: Array.isArray(post.postComments) || !post.postComments ? {
+                count: post.postComments?.length ?? 0,
+                mode: 'RANKED_THREADED',
+                comments: post.postComments ?? [],
+            } : post.postComments,
+        })),
+    }),
+    // 6.0.0: page ids and aliases, opening hours, numeric check-ins, every phone
+    // number, comment replies and details, post types, shared posts, entities,
+    // image details, and the events, albums, photos and videos sections
+    4: (data, { language = 'en-US' }) => ({
+        ...data,
+        pageId: data.pageId ?? null,
+        aliases: data.aliases ?? [data.pageUrl].filter((url) => url),
+        hours: data.hours ?? null,
+        checkins: typeof data.checkins === 'string' ? createNumberParser(language)(data.checkins) : data.checkins ?? null,
+        phones: data.phones ?? [],
+        events: data.events ?? [],
+        albums: data.albums ?? [],
+        photos: data.photos ?? [],
+        videos: data.videos ?? [],
+        posts: (data.posts ?? []).map((post: Record<string, any>) => ({
+            ...post,
+            postType: post.postType ?? getPostType({ url: post.postUrl }),
+            postVideo: post.postVideo ?? null,
+            sharedFrom: post.sharedFrom ?? null,
+            // only the ones on the plain text
+            entities: post.entities ?? extractEntities(post.postText ?? ''),
+            postImages: (post.postImages ?? []).map((image: Record<string, any>) => ({
+                ...image,
+                alt: image.alt ?? null,
+                fullImage: image.fullImage ?? null,
+                key: image.key ?? null,
+            })),
+            postComments: {
+                ...post.postComments,
+                comments: (post.postComments?.comments ?? []).map((comment: Record<string, any>) => ({
+                    ...comment,
+                    id: comment.id ?? legacyCommentId(comment, post.postUrl),
+                    legacyId: comment.legacyId ?? null,
+                    authorId: comment.authorId ?? null,
+                    parentId: comment.parentId ?? null,
+                    depth: comment.depth ?? 0,
+                    replyCount: comment.replyCount ?? 0,
+                    reactions: comment.reactions ?? 0,
+                    reactionsBreakdown: comment.reactionsBreakdown ?? {},
+                    attachment: comment.attachment ?? null,
+                    mentions: comment.mentions ?? [],
+                    entities: comment.entities ?? extractEntities(comment.text ?? null),
+                    isPageAuthor: comment.isPageAuthor ?? false,
+                    edited: comment.edited ?? false,
+                })),
+            },
+        })),
+    }),
+};
+
+/**
+ * Guess the version of a PAGE output item. Items without
+ * `#version` are from before 1.0.0 if they have `url`
+ */
+export const detectVersion = (data: Record<string, any>): number => {
+    if (typeof data['#version'] === 'number') {
+        return data['#version'];
+    }
+
+    return 'url' in data && !('pageUrl' in data) ? 1 : 2;
+};
+
+/**
+ * Upgrade an older PAGE output item to the given version, the
+ * current one by default
+ *
+ * @throws {Error} When the item isn't from the PAGE layout, or is newer than the target version
+ */
+export const migrate = (data: Record<string, any>, to = OUTPUT_VERSIONS.PAGE, options: MigrateOptions = {}): Partial<FbPage> => {
+    // items without `#layout` are from before the other layouts existed
+    if (data['#layout'] !== undefined && data['#layout'] !== 'PAGE') {
+        throw new Error(`Only PAGE items can be migrated, got ${data['#layout']}`);
+    }
+
+    let version = detectVersion(data);
+
+    if (version > to) {
+        throw new Error(`Can't migrate version ${version} down to ${to}`);
+    }
+
+    let migrated = data;
+
+    while (version < to) {
+        const migration = MIGRATIONS[version];
+
+        if (!migration) {
+            throw new Error(`Missing migration from version ${version}`);
+        }
+
+        migrated = migration(migrated, options);
+        version++;
+    }
+
+    return {
+        ...migrated,
+        '#version': version,
+    };
+};
@@ -1,9 +1,20 @@
+import { createHash } from 'crypto';
 import Apify from 'apify';
-import { AsyncMap } from 'async-atomic-store';
-import type { FbPage } from './definitions';
+import { AsyncAtomicStore } from 'async-atomic-store';
+import { TRACKED_PROFILE_FIELDS, MEDIA_EXTENSIONS } from './constants';
+import { diffProfile, mergePages } from './functions';
+import type { FbPage, FbProfileChange, FbLikesHistory } from './definitions';
 
 const { log } = Apify.utils;
 
+/**
+ * A request of a page section, other than the home
+ */
+export interface SectionRequest {
+    url: string;
+    userData: Record<string, any>;
+}
+
 export const emptyState = (): FbPage => ({
     categories: [],
     info: [],
@@ -13,6 +24,8 @@ export const emptyState = (): FbPage => ({
     priceRange: '',
     title: '',
     pageUrl: '',
+    pageId: null,
+    aliases: [],
     address: {
         city: null,
         lat: null,
@@ -25,6 +38,8 @@ export const emptyState = (): FbPage => ({
     email: null,
     impressum: [],
     instagram: null,
+    hours: null,
+    phones: [],
     phone: null,
     products: [],
     transit: null,
@@ -34,21 +49,46 @@ export const emptyState = (): FbPage => ({
     mission: [],
     overview: [],
     services: [],
+    events: [],
+    albums: [],
+    photos: [],
+    videos: [],
     reviews: {
         average: null,
         count: null,
         reviews: [],
     },
     payment: null,
-    checkins: '',
+    checkins: null,
     '#startedAt': new Date().toISOString(),
     verified: false,
 });
 
+/**
+ * Turn any string into a valid key-value store key
+ */
+export const toStoreKey = (value: string) => {
+    return `${value}`.replace(/[^a-zA-Z0-9!\-_.'()]/g, '-').slice(0, 256);
+};
+
 /**
  * Persist the crawl state that can survive
  * migrations. Can persist manually if needed.
  *
+ * Each page lives on its own `STATE-*` record, and only the
+ * pages that changed are written. `STATE-PAGES` keeps the list
+ * of pages, and the ones that were already output.
+ *
+ * Pages that were output, or that weren't read or written since the
+ * previous persist, are dropped from memory and read again from the
+ * store when needed, so `state` holds the pages that are being worked on.
+ *
+ * Pages are identified by their numeric page id. When the same
+ * page is reached from different urls, the records are merged
+ * and the other usernames become aliases of the first one. The
+ * other sections of a page wait for its home, where the id is read,
+ * so they're never stored under an alias.
+ *
  * `map` provides a way to write to deep paths in
  * complex objects while still being able to be
  * written asynchronously from many sources, while dealing
@@ -57,16 +97,103 @@ export const emptyState = (): FbPage => ({
 export const statePersistor = async () => {
     const kv = await Apify.openKeyValueStore();
 
+    const index = await kv.getValue('STATE-PAGES') as {
+        pages: string[],
+        output: string[],
+        pageIds?: Array<[string, string]>,
+        aliases?: Array<[string, string]>,
+        homes?: string[],
+        sections?: Array<[string, SectionRequest[]]>,
+    } | null;
+    const pages = new Set<string>(index?.pages ?? []);
+    const outputPages = new Set<string>(index?.output ?? []);
+    const pageIds = new Map<string, string>(index?.pageIds ?? []);
+    const aliases = new Map<string, string>(index?.aliases ?? []);
+    // usernames whose home was scraped, and the sections waiting for it
+    const homes = new Set<string>(index?.homes ?? []);
+    const sections = new Map<string, SectionRequest[]>(index?.sections ?? []);
+    const dirty = new Set<string>();
+    // pages read or written since the last persist
+    const active = new Set<string>();
+
+    // single record from older versions, when migrating
     const state = new Map<string, Partial<FbPage>>(
-        await kv.getValue('STATE') as any,
+        index ? [] : await kv.getValue('STATE') as any,
     );
 
-    const map = AsyncMap(state);
+    for (const username of state.keys()) {
+        pages.add(username);
+        dirty.add(username);
+    }
+
+    const pageKey = (username: string) => `STATE-${toStoreKey(username)}`;
+    const resolve = (username: string) => aliases.get(username) ?? username;
+
+    const read = async (alias: string) => {
+        const username = resolve(alias);
+
+        active.add(username);
+
+        if (!state.has(username) && pages.has(username) && !outputPages.has(username)) {
+            const value = await kv.getValue(pageKey(username)) as Partial<FbPage> | null;
+
+            if (value) {
+                state.set(username, value);
+            }
+        }
+
+        return state.get(username);
+    };
+
+    const write = async (alias: string, value: Partial<FbPage> | undefined) => {
+        const username = resolve(alias);
+
+        if (value) {
+            state.set(username, value);
+            pages.add(username);
+            dirty.add(username);
+            active.add(username);
+        }
+    };
+
+    const map = AsyncAtomicStore({
+        data: async () => state,
+        read,
+        write,
+    });
+
+    const writeChanged = async () => {
+        for (const username of [...dirty]) {
+            dirty.delete(username);
+
+            await kv.setValue(pageKey(username), state.get(username) ?? null);
+        }
+
+        await kv.setValue('STATE-PAGES', {
+            pages: [...pages],
+            output: [...outputPages],
+            pageIds: [...pageIds],
+            aliases: [...aliases],
+            homes: [...homes],
+            sections: [...sections],
+        });
+    };
 
     const persistState = async () => {
-        log.info('Persisting to STATE.json...');
+        await map.lock(async () => {
+            log.info(`Persisting ${dirty.size} changed pages to STATE...`);
 
-        await kv.setValue('STATE', [...state]);
+            await writeChanged();
+
+            // everything is on the store now, idle pages are read again when needed
+            for (const username of [...state.keys()]) {
+                if (outputPages.has(username) || !active.has(username)) {
+                    state.delete(username);
+                }
+            }
+
+            active.clear();
+        });
     };
 
     Apify.events.on('persistState', persistState);
@@ -75,5 +202,556 @@ export const statePersistor = async () => {
         persistState,
         state,
         map,
+        /**
+         * The username the page is stored under
+         */
+        resolve,
+        /**
+         * Link the page to its numeric page id. When the id already belongs
+         * to another username, the page is merged into it and becomes
+         * an alias. Returns the username the page is stored under
+         */
+        async identify(alias: string, pageId?: string | null): Promise<string> {
+            const identified = await map.lock(async () => {
+                const username = resolve(alias);
+
+                if (!pageId) {
+                    return username;
+                }
+
+                const canonical = pageIds.get(pageId);
+
+                if (!canonical) {
+                    pageIds.set(pageId, username);
+                    return username;
+                }
+
+                if (canonical === username) {
+                    return username;
+                }
+
+                log.info(`Page "${username}" is the same as "${canonical}", merging`, { pageId });
+
+                const source = await read(username);
+                const target = await read(canonical);
+
+                state.delete(username);
+                dirty.delete(username);
+                pages.delete(username);
+
+                aliases.set(username, canonical);
+
+                for (const [from, to] of aliases) {
+                    if (to === username) {
+                        aliases.set(from, canonical);
+                    }
+                }
+
+                await write(canonical, mergePages(target ?? {}, source ?? {}));
+                await kv.setValue(pageKey(username), null);
+
+                return canonical;
+            });
+
+            return identified ?? alias;
+        },
+        /**
+         * Keep the section request until the home of the page is scraped.
+         * Returns false when the home was already scraped, and the
+         * section can be requested right away
+         */
+        deferSection(alias: string, request: SectionRequest): boolean {
+            if (homes.has(alias) || homes.has(resolve(alias))) {
+                return false;
+            }
+
+            sections.set(alias, [...(sections.get(alias) ?? []), request]);
+
+            return true;
+        },
+        /**
+         * Mark the home of the page as scraped, after `identify`, and
+         * take the section requests that were waiting for it
+         */
+        homeScraped(alias: string): SectionRequest[] {
+            const waiting = sections.get(alias) ?? [];
+
+            homes.add(alias);
+            sections.delete(alias);
+
+            return waiting;
+        },
+        /**
+         * Pages that weren't output yet, loaded one at a time. Each page
+         * is marked as output, and dropped from memory and from the store
+         * before loading the next one
+         */
+        async* pending() {
+            for (const username of [...pages]) {
+                if (outputPages.has(username)) {
+                    continue; // eslint-disable-line no-continue
+                }
+
+                const value = await map.read(username);
+
+                if (value) {
+                    yield value;
+                }
+
+                await map.lock(async () => {
+                    outputPages.add(username);
+                    dirty.delete(username);
+                    state.delete(username);
+
+                    await kv.setValue(pageKey(username), null);
+                });
+            }
+
+            await map.lock(writeChanged);
+        },
+    };
+};
+
+export type HistoryType = 'posts' | 'comments';
+
+/**
+ * Ids of items that were output, for one page
+ */
+export interface HistoryEntry {
+    /**
+     * Seen in previous runs or in the current run
+     */
+    has(type: HistoryType, id?: string | null): boolean;
+    /**
+     * Seen only in previous runs
+     */
+    hadBefore(type: HistoryType, id?: string | null): boolean;
+    add(type: HistoryType, id?: string | null): void;
+}
+
+type HistoryIds = Record<HistoryType, Set<string>>;
+
+/**
+ * Remembers the post and comment ids that were output per page across runs,
+ * on a named key-value store, one record per page. When not enabled, it
+ * doesn't know anything and doesn't persist anything.
+ *
+ * With `deferCommit`, the ids are only remembered on `commit()`, when the
+ * items were output at the end of the run. Until then, they are kept on the
+ * `INCREMENTAL-PENDING` record of the default key-value store, so a migration
+ * doesn't lose them, and a run that fails doesn't remember items that were
+ * never output.
+ *
+ * Only the pages that changed are written on `persistState`
+ */
+export const historyPersistor = async ({ enabled, name, reset, deferCommit }: {
+    enabled: boolean;
+    name: string;
+    reset: boolean;
+    deferCommit: boolean;
+}) => {
+    const entries = new Map<string, Promise<HistoryEntry>>();
+    // the remembered ids of each loaded page, including the ones of this run
+    const records = new Map<string, HistoryIds>();
+    const dirty = new Set<string>();
+
+    if (!enabled) {
+        const empty: HistoryEntry = {
+            has: () => false,
+            hadBefore: () => false,
+            add: () => {}, // eslint-disable-line @typescript-eslint/no-empty-function
+        };
+
+        return {
+            page: async (username: string) => empty, // eslint-disable-line @typescript-eslint/no-unused-vars
+            persistState: async () => {}, // eslint-disable-line @typescript-eslint/no-empty-function
+            commit: async () => {}, // eslint-disable-line @typescript-eslint/no-empty-function
+        };
+    }
+
+    let kv = await Apify.openKeyValueStore(name);
+
+    // a migration starts the run again with the same input,
+    // so the history is only dropped on the first start
+    if (reset && !await Apify.getValue('INCREMENTAL-RESET')) {
+        log.info(`Resetting the history on "${name}" store`);
+
+        await kv.drop();
+        kv = await Apify.openKeyValueStore(name);
+        await Apify.setValue('INCREMENTAL-RESET', true);
+    }
+
+    const toIds = (value?: { posts?: string[], comments?: string[] } | null): HistoryIds => ({
+        posts: new Set<string>(value?.posts ?? []),
+        comments: new Set<string>(value?.comments ?? []),
+    });
+
+    const fromIds = (value: HistoryIds) => ({
+        posts: [...value.posts],
+        comments: [...value.comments],
+    });
+
+    const pending = new Map<string, HistoryIds>(
+        Object.entries(await Apify.getValue('INCREMENTAL-PENDING') as Record<string, { posts: string[], comments: string[] }> | null ?? {})
+            .map(([key, value]) => [key, toIds(value)]),
+    );
+    let pendingChanged = false;
+
+    const read = async (key: string) => {
+        if (!records.has(key)) {
+            records.set(key, toIds(await kv.getValue(key) as { posts?: string[], comments?: string[] } | null));
+        }
+
+        return records.get(key)!;
+    };
+
+    const load = async (username: string): Promise<HistoryEntry> => {
+        const key = toStoreKey(username);
+        const current = await read(key);
+
+        const before = {
+            posts: new Set<string>(current.posts),
+            comments: new Set<string>(current.comments),
+        };
+
+        return {
+            has: (type, id) => !!id && (current[type].has(id) || !!pending.get(key)?.[type].has(id)),
+            hadBefore: (type, id) => !!id && before[type].has(id),
+            add: (type, id) => {
+                if (!id || current[type].has(id)) {
+                    return;
+                }
+
+                if (deferCommit) {
+                    if (!pending.has(key)) {
+                        pending.set(key, toIds());
+                    }
+
+                    pending.get(key)![type].add(id);
+                    pendingChanged = true;
+                } else {
+                    current[type].add(id);
+                    dirty.add(key);
+                }
+            },
+        };
+    };
+
+    const persistState = async () => {
+        if (pendingChanged) {
+            pendingChanged = false;
+
+            await Apify.setValue('INCREMENTAL-PENDING', pending.size
+                ? [...pending].reduce((out, [key, value]) => ({ ...out, [key]: fromIds(value) }), {})
+                : null);
+        }
+
+        if (!dirty.size) {
+            return;
+        }
+
+        log.info(`Persisting history of ${dirty.size} pages...`);
+
+        for (const key of [...dirty]) {
+            dirty.delete(key);
+
+            await kv.setValue(key, fromIds(records.get(key)!));
+        }
+    };
+
+    Apify.events.on('persistState', persistState);
+
+    return {
+        page: async (username: string) => {
+            if (!entries.has(username)) {
+                entries.set(username, load(username));
+            }
+
+            return entries.get(username)!;
+        },
+        persistState,
+        /**
+         * Remember the pending ids, after the items were output
+         */
+        commit: async () => {
+            for (const [key, ids] of pending) {
+                const current = await read(key);
+
+                for (const type of ['posts', 'comments'] as const) {
+                    ids[type].forEach((id) => current[type].add(id));
+                }
+
+                dirty.add(key);
+            }
+
+            pendingChanged = pending.size > 0;
+            pending.clear();
+
+            await persistState();
+        },
+    };
+};
+
+/**
+ * A page on the profiles store. `base` is what was known before this run,
+ * so a retried or migrated request compares with the previous run again
+ */
+interface ProfileRecord {
+    run?: string;
+    profile: Partial<FbPage>;
+    likesHistory: FbLikesHistory[];
+    base?: Omit<ProfileRecord, 'base' | 'run'> | null;
+}
+
+/**
+ * Keeps the last known profile fields and the likes history per page
+ * across runs, on a named key-value store, one record per page.
+ *
+ * When not enabled, there are never changes
+ */
+export const profilePersistor = async ({ enabled, name, maxLikesHistory = 1000 }: {
+    enabled: boolean;
+    name: string;
+    maxLikesHistory?: number;
+}) => {
+    const kv = enabled ? await Apify.openKeyValueStore(name) : null;
+    // the default store is kept when migrating, so it's the same run
+    let run = await Apify.getValue('PROFILES-RUN') as string | null;
+
+    if (kv && !run) {
+        run = Apify.getEnv().actorRunId ?? new Date().toISOString();
+        await Apify.setValue('PROFILES-RUN', run);
+    }
+
+    return {
+        /**
+         * Compare the current profile with the last known one, and store
+         * the current one as the last known
+         */
+        track: async (username: string, page: Partial<FbPage>): Promise<{
+            changes: FbProfileChange[];
+            likesHistory: FbLikesHistory[];
+        }> => {
+            if (!kv) {
+                return { changes: [], likesHistory: [] };
+            }
+
+            const key = toStoreKey(username);
+            const date = new Date().toISOString();
+            const record = await kv.getValue(key) as ProfileRecord | null;
+            // tracked earlier in this run, by a failed attempt
+            const previous = record?.run === run ? record.base : record;
+
+            const changes = previous ? diffProfile(previous.profile, page, date) : [];
+            // likes that couldn't be read aren't history
+            const likesHistory = [
+                ...(previous?.likesHistory ?? []),
+                ...(typeof page.likes === 'number' ? [{ date, likes: page.likes }] : []),
+            ].slice(-maxLikesHistory);
+
+            await kv.setValue(key, {
+                run,
+                profile: TRACKED_PROFILE_FIELDS.reduce((out, field) => ({
+                    ...out,
+                    [field]: page[field] ?? null,
+                }), {}),
+                likesHistory,
+                base: previous ? { profile: previous.profile, likesHistory: previous.likesHistory } : null,
+            } as ProfileRecord);
+
+            if (changes.length) {
+                log.info(`Profile of "${username}" changed`, { fields: changes.map(({ field }) => field) });
+            }
+
+            return { changes, likesHistory };
+        },
+    };
+};
+
+/**
+ * A post that can be visited again for new stats
+ */
+export interface EngagementPost {
+    postId: string;
+    url: string;
+    username: string;
+    canonical?: string;
+    postDate: string | null;
+}
+
+/**
+ * Keeps the posts that were scraped across runs on a named key-value
+ * store, so their stats can be snapshotted again in the next runs.
+ * Posts published before the last `days` are forgotten.
+ *
+ * When not enabled, there are no posts
+ */
+export const engagementPersistor = async ({ enabled, name, days }: {
+    enabled: boolean;
+    name: string;
+    days: number;
+}) => {
+    const kv = enabled ? await Apify.openKeyValueStore(name) : null;
+    const posts = new Map<string, EngagementPost>(
+        (await kv?.getValue('POSTS') as Array<[string, EngagementPost]> | null) ?? [],
+    );
+
+    const isRecent = (post: EngagementPost) => {
+        if (!post.postDate) {
+            return false;
+        }
+
+        return Date.now() - new Date(post.postDate).getTime() <= days * 24 * 60 * 60 * 1000;
+    };
+
+    const persistState = async () => {
+        if (!kv) {
+            return;
+        }
+
+        for (const [postId, post] of posts) {
+            if (!isRecent(post)) {
+                posts.delete(postId);
+            }
+        }
+
+        await kv.setValue('POSTS', [...posts]);
+    };
+
+    if (kv) {
+        Apify.events.on('persistState', persistState);
+    }
+
+    return {
+        /**
+         * Posts published in the last days
+         */
+        recent: () => [...posts.values()].filter(isRecent),
+        add: (post: EngagementPost) => {
+            if (kv && post.postId) {
+                posts.set(post.postId, post);
+            }
+        },
+        persistState,
+    };
+};
+
+/**
+ * Downloads media to a named key-value store, one record per distinct
+ * content, keyed by its SHA-256 hash, so the same image from many posts
+ * or runs is stored once. `INDEX` keeps the keys that were stored.
+ *
+ * When not enabled, nothing is downloaded and there are no keys
+ */
+export const mediaPersistor = async ({ enabled, name }: {
+    enabled: boolean;
+    name: string;
+}) => {
+    const kv = enabled ? await Apify.openKeyValueStore(name) : null;
+    const stored = new Set<string>((await kv?.getValue('INDEX') as string[] | null) ?? []);
+    const downloads = new Map<string, Promise<string | null>>();
+    let dirty = false;
+
+    const persistState = async () => {
+        if (!kv || !dirty) {
+            return;
+        }
+
+        dirty = false;
+
+        await kv.setValue('INDEX', [...stored]);
+    };
+
+    if (kv) {
+        Apify.events.on('persistState', persistState);
+    }
+
+    const download = async (url: string, fetch: (url: string) => Promise<{ body: Buffer, contentType: string }>) => {
+        try {
+            const { body, contentType } = await fetch(url);
+            const hash = createHash('sha256').update(body).digest('hex');
+            const key = `${hash}.${MEDIA_EXTENSIONS[contentType.split(';')[0].trim()] ?? 'bin'}`;
+
+            if (!stored.has(key)) {
+                await kv!.setValue(key, body, { contentType });
+
+                stored.add(key);
+                dirty = true;
+            }
+
+            return key;
+        } catch (e) {
+            log.debug(`Media download failed: ${e.message}`, { url });
+
+            // allow trying again later
+            downloads.delete(url);
+
+            return null;
+        }
+    };
+
+    return {
+        /**
+         * Download the url once per run, returns the record key
+         */
+        save: async (url: string | null, fetch: (url: string) => Promise<{ body: Buffer, contentType: string }>) => {
+            if (!kv || !url) {
+                return null;
+            }
+
+            if (!downloads.has(url)) {
+                downloads.set(url, download(url, fetch));
+            }
+
+            return downloads.get(url)!;
+        },
+        persistState,
+    };
+};
+
+/**
+ * Pages that were found through other pages, up to `maxPages` in the
+ * whole run. Kept on the `DISCOVERED` record, so the budget survives
+ * migrations.
+ *
+ * When not enabled, no page is ever added
+ */
+export const discoveryPersistor = async ({ enabled, maxPages }: {
+    enabled: boolean;
+    maxPages: number;
+}) => {
+    const kv = enabled ? await Apify.openKeyValueStore() : null;
+    const pages = new Set<string>((await kv?.getValue('DISCOVERED') as string[] | null) ?? []);
+    let dirty = false;
+
+    const persistState = async () => {
+        if (!kv || !dirty) {
+            return;
+        }
+
+        dirty = false;
+
+        await kv.setValue('DISCOVERED', [...pages]);
+    };
+
+    if (kv) {
+        Apify.events.on('persistState', persistState);
+    }
+
+    return {
+        /**
+         * Returns true when the page is new and there's budget left for it
+         */
+        add: (username: string) => {
+            if (!kv || pages.has(username) || pages.size >= maxPages) {
+                return false;
+            }
+
+            pages.add(username);
+            dirty = true;
+
+            return true;
+        },
+        persistState,
     };
 };
@@ -0,0 +1,183 @@
+import Apify from 'apify';
+import * as http from 'http';
+import * as https from 'https';
+
+const { log, sleep } = Apify.utils;
+
+export interface WebhookOptions {
+    url?: string;
+    headers?: Record<string, string>;
+    batchSize?: number;
+    maxRetries?: number;
+    retryDelaySecs?: number;
+    deadLetterStore?: string;
+}
+
+/**
+ * POST a JSON body, resolves with the status code
+ */
+const postJson = (url: string, headers: Record<string, string>, body: any) => new Promise<number>((resolve, reject) => {
+    const payload = Buffer.from(JSON.stringify(body));
+    const req = (url.startsWith('https:') ? https : http).request(url, {
+        method: 'POST',
+        timeout: 30000,
+        headers: {
+            ...headers,
+            'content-type': 'application/json',
+            'content-length': `${payload.length}`,
+        },
+    }, (res) => {
+        res.resume();
+        res.on('end', () => resolve(res.statusCode ?? 0));
+    });
+
+    req.on('timeout', () => req.destroy(new Error('Timed out')));
+    req.on('error', reject);
+    req.end(payload);
+});
+
+/**
+ * Delivers the output items to a webhook url, as a JSON array of up
+ * to `batchSize` items. Failed deliveries are retried with exponential
+ * backoff, then saved on a named dead-letter key-value store, and the
+ * ones of this run are delivered again on `finish`.
+ *
+ * When there's no url, nothing is delivered
+ */
+export const webhookSink = async ({
+    url,
+    headers = {},
+    batchSize = 1,
+    maxRetries = 3,
+    retryDelaySecs = 5,
+    deadLetterStore = 'facebook-webhook-dead-letter',
+}: WebhookOptions) => {
+    if (!url) {
+        return {
+            add: async (data: Record<string, any>) => {}, // eslint-disable-line @typescript-eslint/no-unused-vars, @typescript-eslint/no-empty-function
+            finish: async () => {}, // eslint-disable-line @typescript-eslint/no-empty-function
+        };
+    }
+
+    const kv = await Apify.openKeyValueStore(deadLetterStore);
+    // the store can be shared by many runs, a migration keeps the run id
+    const prefix = `BATCH-${Apify.getEnv().actorRunId ?? 'LOCAL'}-`;
+    let batch: Array<Record<string, any>> = [];
+    let deadLetters = 0;
+
+    /**
+     * Returns the last error, or null when delivered
+     */
+    const deliver = async (items: Array<Record<string, any>>) => {
+        let lastError = '';
+
+        for (let attempt = 0; attempt <= maxRetries; attempt++) {
+            if (attempt > 0) {
+                await sleep(retryDelaySecs * 1000 * (2 ** (attempt - 1)));
+            }
+
+            try {
+                const statusCode = await postJson(url, headers, items);
+
+                if (statusCode >= 200 && statusCode < 300) {
+                    return null;
+                }
+
+                lastError = `Status code ${statusCode}`;
+            } catch (e) {
+                lastError = e.message;
+            }
+
+            log.debug(`Webhook delivery failed: ${lastError}`, { attempt, items: items.length });
+        }
+
+        return lastError;
+    };
+
+    const toDeadLetter = async (items: Array<Record<string, any>>, error: string) => {
+        deadLetters++;
+
+        await kv.setValue(`${prefix}${Date.now()}-${deadLetters}`, {
+            url,
+            error,
+            date: new Date().toISOString(),
+            items,
+        });
+    };
+
+    const flush = async () => {
+        const items = batch;
+        batch = [];
+
+        if (!items.length) {
+            return;
+        }
+
+        const error = await deliver(items);
+
+        if (error) {
+            log.warning(`Couldn't deliver ${items.length} items to the webhook, saving to "${deadLetterStore}" store`, { error });
+
+            await toDeadLetter(items, error);
+        }
+    };
+
+    // items waiting for a full batch would be lost when the run stops
+    Apify.events.on('migrating', flush);
+    Apify.events.on('aborting', flush);
+
+    return {
+        async add(data: Record<string, any>) {
+            batch.push(data);
+
+            if (batch.length >= batchSize) {
+                await flush();
+            }
+        },
+        /**
+         * Deliver the remaining items and the batches of this run
+         * on the dead-letter store
+         */
+        async finish() {
+            await flush();
+
+            const keys: string[] = [];
+
+            await kv.forEachKey(async (key) => {
+                if (key.startsWith(prefix)) {
+                    keys.push(key);
+                }
+            });
+
+            if (!keys.length) {
+                return;
+            }
+
+            log.info(`Delivering ${keys.length} failed batches from "${deadLetterStore}" store`);
+
+            let failed = 0;
+
+            for (const key of keys) {
+                const letter = await kv.getValue(key) as { items: Array<Record<string, any>> } | null;
+
+                if (!letter?.items?.length) {
+                    await kv.setValue(key, null);
+                    continue; // eslint-disable-line no-continue
+                }
+
+                const error = await deliver(letter.items);
+
+                if (error) {
+                    failed++;
+                    await kv.setValue(key, { ...letter, error, date: new Date().toISOString() });
+                } else {
+                    await kv.setValue(key, null);
+                }
+            }
+
+            if (failed) {
+                log.warning(`${failed} batches are still on "${deadLetterStore}" store`);
+            }
+        },
+    };
+};
@@ -0,0 +1,29 @@
+import * as moment from 'moment';
+import { minMaxDates } from '../src/functions';
+
+describe('minMaxDates', () => {
+    test('relative dates count back from now', () => {
+        const { minDate } = minMaxDates({ min: '3 days' });
+
+        expect(Math.round(moment().diff(minDate, 'days', true))).toBe(3);
+    });
+
+    test('relative dates starting with "in" are in the future', () => {
+        const { minDate, maxDate } = minMaxDates({ min: 'tomorrow', max: 'in 30 days' });
+
+        expect(minDate!.isSame(moment().add(1, 'day').startOf('day'))).toBe(true);
+        expect(Math.round(maxDate!.diff(moment(), 'days', true))).toBe(30);
+    });
+
+    test('compares against a window of upcoming dates', () => {
+        const date = minMaxDates({ min: 'today', max: 'in 1 week' });
+
+        expect(date.compare(moment().add(2, 'days').valueOf())).toBe(true);
+        expect(date.compare(moment().add(2, 'weeks').valueOf())).toBe(false);
+        expect(date.compare(moment().subtract(2, 'days').valueOf())).toBe(false);
+    });
+
+    test('throws when the max date is before the min date', () => {
+        expect(() => minMaxDates({ min: 'in 2 days', max: '1 day' })).toThrow('needs to be less than');
+    });
+});
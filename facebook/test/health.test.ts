@@ -0,0 +1,60 @@
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import * as path from 'path';
+import { recordSelector, selectorHealthReporter } from '../src/health';
+
+const storage = mkdtempSync(path.join(tmpdir(), 'health-'));
+process.env.APIFY_LOCAL_STORAGE_DIR = storage;
+
+const record = (name: string, results: boolean[]) => {
+    for (const hit of results) {
+        recordSelector('pageSelectors', name, hit);
+    }
+};
+
+// hits spread evenly, `rate` of the times
+const spread = (count: number, rate: number) => [...Array(count).keys()].map((i) => Math.floor((i + 1) * rate) > Math.floor(i * rate));
+
+describe('selector health', () => {
+    let reporter: Awaited<ReturnType<typeof selectorHealthReporter>>;
+
+    beforeAll(async () => {
+        reporter = await selectorHealthReporter({ enabled: true, name: 'selector-health' });
+    });
+
+    afterAll(() => {
+        rmSync(storage, { recursive: true, force: true });
+    });
+
+    const report = () => reporter.report().selectors;
+
+    test('selectors that stop matching drift', () => {
+        record('title', [...spread(100, 0.9), ...spread(50, 0)]);
+
+        expect(report()['pageSelectors.title'].drifted).toBe(true);
+    });
+
+    test('optional fields missing from many pages don\'t drift', () => {
+        record('email', [true, ...spread(1000, 0.05)]);
+        record('hours', spread(1000, 0.3));
+
+        const selectors = report();
+
+        expect(selectors['pageSelectors.email'].drifted).toBe(false);
+        expect(selectors['pageSelectors.hours'].drifted).toBe(false);
+    });
+
+    test('a lower rate that still matches doesn\'t drift', () => {
+        record('phone', [...spread(100, 0.8), ...spread(100, 0.5)]);
+
+        expect(report()['pageSelectors.phone'].drifted).toBe(false);
+    });
+
+    test('nothing is tracked when not enabled', async () => {
+        const disabled = await selectorHealthReporter({ enabled: false, name: 'unused' });
+
+        record('website', spread(100, 0.5));
+
+        expect(disabled.report().selectors).not.toHaveProperty('pageSelectors.website');
+    });
+});
@@ -0,0 +1,81 @@
+import { createHoursParser } from '../src/hours';
+import { toIntlLocale } from '../src/functions';
+import { CLOSED_PHRASES } from '../src/constants';
+import LANGUAGES = require('../src/languages.json');
+
+describe('createHoursParser', () => {
+    describe.each(Object.keys(LANGUAGES))('%s', (language) => {
+        const parse = createHoursParser(language);
+        const locale = toIntlLocale(language);
+
+        // 2021-01-04 is a monday
+        const weekday = (day: number, format: 'long' | 'short') => new Intl.DateTimeFormat(locale, { weekday: format, timeZone: 'UTC' })
+            .format(new Date(Date.UTC(2021, 0, 4 + day, 12)));
+        const time = (hour: number, minute: number, hour12?: boolean) => new Intl.DateTimeFormat(locale, {
+            hour: 'numeric', minute: '2-digit', hour12, timeZone: 'UTC',
+        }).format(new Date(Date.UTC(2021, 0, 4, hour, minute)));
+
+        test('reads the days with their intervals', () => {
+            const hours = parse([
+                `${weekday(0, 'long')} ${time(9, 0)} - ${time(17, 30)}`,
+                `${weekday(2, 'long')} ${time(8, 15)} - ${time(12, 0)}, ${time(13, 0)} - ${time(22, 0)}`,
+            ].join('\n'));
+
+            expect(hours?.days).toEqual({
+                monday: { closed: false, open24h: false, intervals: [{ open: '09:00', close: '17:30' }] },
+                wednesday: {
+                    closed: false,
+                    open24h: false,
+                    intervals: [{ open: '08:15', close: '12:00' }, { open: '13:00', close: '22:00' }],
+                },
+            });
+        });
+
+        test('reads ranges of short days with 12-hour times', () => {
+            const hours = parse(`${weekday(0, 'short')} - ${weekday(4, 'short')} ${time(9, 0, true)} - ${time(17, 30, true)}`);
+
+            expect(Object.keys(hours?.days ?? {})).toEqual(['monday', 'tuesday', 'wednesday', 'thursday', 'friday']);
+            expect(hours?.days.friday?.intervals).toEqual([{ open: '09:00', close: '17:30' }]);
+        });
+
+        // languages without their own phrases only understand the English ones
+        const closedPhrases = CLOSED_PHRASES[locale.split('-')[0]] ?? CLOSED_PHRASES.en;
+
+        test.each(closedPhrases)('reads days closed with "%s"', (phrase) => {
+            const hours = parse(`${weekday(0, 'long')} ${time(9, 0)} - ${time(17, 0)}\n${weekday(6, 'long')} ${phrase}`);
+
+            expect(hours?.days.sunday).toEqual({ closed: true, open24h: false, intervals: [] });
+        });
+    });
+
+    const parse = createHoursParser('en-US');
+
+    test('reads closed and open 24 hours days', () => {
+        expect(parse('Mon - Fri 9:00 AM - 5:30 PM\nSat Open 24 hours\nSun Closed')?.days).toMatchObject({
+            friday: { closed: false, open24h: false, intervals: [{ open: '09:00', close: '17:30' }] },
+            saturday: { closed: false, open24h: true, intervals: [] },
+            sunday: { closed: true, open24h: false, intervals: [] },
+        });
+    });
+
+    test('leaves out the days that aren\'t understood', () => {
+        const hours = parse('Mon 9:00 AM - 5:00 PM\nSun By appointment');
+
+        expect(hours?.days.monday?.intervals).toEqual([{ open: '09:00', close: '17:00' }]);
+        expect(hours?.days).not.toHaveProperty('sunday');
+    });
+
+    test('reads closed days in the language', () => {
+        expect(createHoursParser('de-DE')('Mo - Fr 09:00-12:00, 13:00-18:00\nSo Geschlossen')?.days.sunday)
+            .toEqual({ closed: true, open24h: false, intervals: [] });
+    });
+
+    test('reads always open', () => {
+        expect(parse('Always open')?.alwaysOpen).toBe(true);
+    });
+
+    test('returns null without hours', () => {
+        expect(parse('Call us for an appointment')).toBeNull();
+        expect(parse('Sun Closed')).toBeNull();
+    });
+});
@@ -0,0 +1,54 @@
+import { createNumberParser } from '../src/numbers';
+import { toIntlLocale } from '../src/functions';
+import LANGUAGES = require('../src/languages.json');
+
+describe('createNumberParser', () => {
+    describe.each(Object.keys(LANGUAGES))('%s', (language) => {
+        const parse = createNumberParser(language);
+        const locale = toIntlLocale(language);
+
+        test.each([0, 7, 1234, 1234567])('reads %d with the grouping separators', (value) => {
+            expect(parse(`${new Intl.NumberFormat(locale).format(value)} likes`)).toBe(value);
+        });
+
+        test.each([
+            ['short', 1200],
+            ['short', 45000],
+            ['short', 3400000],
+            ['long', 1200],
+            // the long Nepali names of Intl are off by ten, "१.२ करोड" is 1.2 million
+            ...(language === 'ne-NP' ? [] : [['long', 3400000]]),
+        ] as Array<['short' | 'long', number]>)('reads the %s abbreviation of %d', (compactDisplay, value) => {
+            const format = new Intl.NumberFormat(locale, { notation: 'compact', compactDisplay } as Intl.NumberFormatOptions);
+
+            expect(parse(format.format(value))).toBe(value);
+        });
+
+        test('returns null without a number', () => {
+            expect(parse('')).toBeNull();
+            expect(parse(null)).toBeNull();
+        });
+    });
+
+    test.each([
+        ['en-US', '1,234 likes', 1234],
+        ['en-US', '1.2K people like this', 1200],
+        ['en-US', '12M followers', 12000000],
+        ['pt-BR', '1,2 mil curtidas', 1200],
+        ['es-ES', '1,2 mil Me gusta', 1200],
+        ['ru-RU', '12 тыс. подписчиков', 12000],
+        ['de-DE', '3,4 Mio. Fans', 3400000],
+        ['de-DE', '1.234 Personen gefällt das', 1234],
+        ['fr-FR', '1 234 mentions J’aime', 1234],
+        ['ja-JP', '1.2万', 12000],
+        ['ja-JP', '1.2万人が「いいね！」', 12000],
+        ['zh-CN', '1.2万人', 12000],
+        ['zh-TW', '3.4萬人說這讚', 34000],
+        ['ko-KR', '1.2만명', 12000],
+        ['ar-AR', '١٬٢٣٤ تسجيل إعجاب', 1234],
+        ['hi-IN', '12,34,567 लोगों', 1234567],
+        ['sw-KE', 'elfu 1.2', 1200],
+    ])('%s reads "%s"', (language, text, value) => {
+        expect(createNumberParser(language)(text)).toBe(value);
+    });
+});
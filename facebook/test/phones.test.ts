@@ -0,0 +1,50 @@
+import { createPhoneParser } from '../src/phones';
+
+const numbers = (phones: Array<{ number: string }>) => phones.map(({ number }) => number);
+
+describe('createPhoneParser', () => {
+    const parse = createPhoneParser('en-US');
+
+    test('reads the country from the address', () => {
+        expect(numbers(parse(['224 123 456'], { street: 'Václavské náměstí 1', city: 'Prague', region: 'Czechia' })))
+            .toEqual(['+420224123456']);
+    });
+
+    test('reads the country from the address in the language', () => {
+        expect(numbers(createPhoneParser('de-DE')(['224 123 456'], { city: 'Prag', region: 'Tschechien' })))
+            .toEqual(['+420224123456']);
+    });
+
+    test('reads the country from the postal code', () => {
+        expect(numbers(parse(['020 7946 0018'], { postalCode: 'SW1A 1AA' }))).toEqual(['+442079460018']);
+        expect(numbers(parse(['(212) 555-0123'], { postalCode: '10001', region: 'NY' }))).toEqual(['+12125550123']);
+    });
+
+    test('falls back to the countryCode country', () => {
+        expect(numbers(createPhoneParser('en-US', 'DE')(['030 12345678'], { city: 'Somewhere' }))).toEqual(['+493012345678']);
+    });
+
+    test('falls back to the country of the language', () => {
+        expect(numbers(createPhoneParser('fr-FR')(['01 23 45 67 89']))).toEqual(['+33123456789']);
+        // not a country
+        expect(numbers(createPhoneParser('eo-EO', 'EO')(['01 23 45 67 89']))).toEqual([]);
+    });
+
+    test('numbers with the international prefix keep their country', () => {
+        expect(parse(['+33 1 23 45 67 89'], { postalCode: 'SW1A 1AA' })).toEqual([{
+            number: '+33123456789',
+            type: 'FIXED_LINE',
+            country: 'FR',
+            raw: '+33 1 23 45 67 89',
+        }]);
+    });
+
+    test('leaves out what isn\'t a phone number', () => {
+        expect(parse(['Call us', '12', null, undefined, 'Open 9:00 - 17:00'])).toEqual([]);
+    });
+
+    test('every number once', () => {
+        expect(numbers(parse(['(212) 555-0123 or (212) 555-0124', '+1 212-555-0123'], { postalCode: '10001', region: 'NY' })))
+            .toEqual(['+12125550123', '+12125550124']);
+    });
+});
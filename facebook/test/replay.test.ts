@@ -0,0 +1,29 @@
+import { existsSync, readdirSync } from 'fs';
+import * as path from 'path';
+import { chromium } from 'playwright';
+import type { Browser } from 'playwright';
+import { replayFixture } from '../src/replay';
+
+const FIXTURES = path.join(__dirname, 'fixtures');
+
+describe('replay', () => {
+    let browser: Browser;
+
+    beforeAll(async () => {
+        if (!existsSync(chromium.executablePath())) {
+            throw new Error('The replay needs the Playwright Chromium, install it with "npx playwright install chromium"');
+        }
+
+        browser = await chromium.launch({ headless: true });
+    });
+
+    afterAll(async () => {
+        await browser?.close();
+    });
+
+    const dirs = readdirSync(FIXTURES, { withFileTypes: true }).filter((entry) => entry.isDirectory()).map((entry) => entry.name);
+
+    test.each(dirs)('%s matches the expected output', async (dir) => {
+        expect(await replayFixture(browser, path.join(FIXTURES, dir))).toEqual([]);
+    }, 120000);
+});
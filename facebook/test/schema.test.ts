@@ -0,0 +1,180 @@
+import { OUTPUT_VERSIONS } from '../src/constants';
+import { detectVersion, migrate, outputValidator } from '../src/schema';
+
+// an item as output by 5.x
+const v4 = () => ({
+    '#version': 4,
+    '#startedAt': '2021-03-01T10:00:00.000Z',
+    '#url': 'https://m.facebook.com/example',
+    pageUrl: 'https://www.facebook.com/example',
+    title: 'Example',
+    verified: false,
+    messenger: null,
+    checkins: '1,234 people checked in here',
+    likes: 5000,
+    priceRange: null,
+    categories: ['Restaurant'],
+    info: [],
+    website: 'https://example.com',
+    email: null,
+    twitter: null,
+    phone: '+1 555-0100',
+    transit: null,
+    youtube: null,
+    payment: null,
+    impressum: [],
+    awards: [],
+    mission: [],
+    overview: [],
+    products: [],
+    instagram: null,
+    address: {
+        lat: null,
+        lng: null,
+        street: '1 Main St',
+        postalCode: '10001',
+        region: 'NY',
+        city: 'New York',
+    },
+    services: [],
+    posts: [{
+        postDate: '2021-02-28T09:00:00.000Z',
+        postText: 'Open today #food',
+        postUrl: 'https://www.facebook.com/example/posts/123456',
+        postStats: {
+            comments: 2,
+            reactions: 10,
+            reactionsBreakdown: {
+                like: 10, haha: 0, wow: 0, love: 0, sorry: 0, support: 0, anger: 0,
+            },
+            shares: 0,
+        },
+        postComments: {
+            count: 2,
+            mode: 'RANKED_THREADED',
+            comments: [{
+                name: 'Someone',
+                date: '2021-02-28T10:00:00.000Z',
+                text: 'Nice',
+                profileUrl: 'https://www.facebook.com/someone',
+                profilePicture: null,
+                url: 'https://www.facebook.com/example/posts/123456?comment_id=789',
+            }, {
+                name: 'Someone else',
+                date: '2021-02-28T11:00:00.000Z',
+                text: null,
+                profileUrl: null,
+                profilePicture: null,
+                url: 'https://www.facebook.com/example',
+            }],
+        },
+        postImages: [{ link: 'https://www.facebook.com/photo.php?fbid=1', image: 'https://scontent.example/1.jpg' }],
+        postLinks: [],
+    }],
+    reviews: {
+        average: null,
+        count: 0,
+        reviews: [],
+    },
+});
+
+describe('detectVersion', () => {
+    test('reads #version', () => {
+        expect(detectVersion({ '#version': 3, url: 'https://www.facebook.com/example' })).toBe(3);
+    });
+
+    test('items with url are from before 1.0.0', () => {
+        expect(detectVersion({ url: 'https://www.facebook.com/example' })).toBe(1);
+    });
+
+    test('items with pageUrl and without #version are from 1.0.0', () => {
+        expect(detectVersion({ pageUrl: 'https://www.facebook.com/example' })).toBe(2);
+    });
+});
+
+describe('migrate', () => {
+    test('5.x items are upgraded to the current version', () => {
+        const migrated = migrate(v4());
+        const [post] = migrated.posts!;
+        const [comment, withoutId] = post.postComments.comments;
+
+        expect(migrated['#version']).toBe(OUTPUT_VERSIONS.PAGE);
+        expect(migrated.checkins).toBe(1234);
+        expect(migrated.aliases).toEqual(['https://www.facebook.com/example']);
+        expect(post.postType).toBe('status');
+        expect(post.entities).toEqual([expect.objectContaining({ type: 'hashtag', text: '#food' })]);
+        expect(post.postImages[0]).toMatchObject({ alt: null, fullImage: null, key: null });
+        expect(comment).toMatchObject({
+            id: Buffer.from('comment:123456_789').toString('base64'),
+            parentId: null,
+            depth: 0,
+            replyCount: 0,
+        });
+        expect(withoutId.id).toBeNull();
+    });
+
+    test('items from before 1.0.0 go through every migration', () => {
+        const { pageUrl, posts, ...data } = v4();
+        const [{
+            postText, postDate, postUrl, postStats, postComments, postImages, postLinks,
+        }] = posts;
+
+        const migrated = migrate({
+            ...data,
+            '#version': undefined,
+            url: pageUrl,
+            posts: [{
+                text: postText,
+                date: postDate,
+                url: postUrl,
+                stats: postStats,
+                comments: postComments.comments,
+                images: postImages,
+                links: postLinks,
+            }],
+            reviews: [],
+        });
+
+        expect(migrated).not.toHaveProperty('url');
+        expect(migrated.pageUrl).toBe(pageUrl);
+        expect(migrated.posts![0].postComments).toMatchObject({ count: 2, mode: 'RANKED_THREADED' });
+        expect(migrated.reviews).toEqual({ average: null, count: 0, reviews: [] });
+    });
+
+    test('text is parsed in the given language', () => {
+        expect(migrate({ ...v4(), checkins: '1.234 Besucher' }, OUTPUT_VERSIONS.PAGE, { language: 'de-DE' }).checkins).toBe(1234);
+    });
+
+    test('can stop at an older version', () => {
+        expect(migrate({ pageUrl: 'https://www.facebook.com/example' }, 3)['#version']).toBe(3);
+    });
+
+    test('throws on other layouts and newer versions', () => {
+        expect(() => migrate({ '#layout': 'STREAM', '#version': 1 })).toThrow('Only PAGE items');
+        expect(() => migrate({ '#version': OUTPUT_VERSIONS.PAGE + 1 })).toThrow('migrate version');
+    });
+});
+
+describe('outputValidator', () => {
+    test('migrated items are valid', () => {
+        expect(outputValidator({ enabled: true }).check(migrate(v4()))).toEqual([]);
+    });
+
+    test('reports the violations', () => {
+        const { posts, ...migrated } = migrate(v4());
+
+        expect(outputValidator({ enabled: true }).check({
+            ...migrated,
+            checkins: '1,234' as any,
+            posts: [{ ...posts![0], postType: undefined as any }],
+        })).toEqual([
+            '/checkins must be null,number',
+            '/posts/0 must have required property \'postType\'',
+        ]);
+    });
+
+    test('only checks page items, when enabled', () => {
+        expect(outputValidator({ enabled: false }).check({})).toEqual([]);
+        expect(outputValidator({ enabled: true }).check({}, 'post')).toEqual([]);
+    });
+});
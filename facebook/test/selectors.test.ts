@@ -0,0 +1,43 @@
+import { CSS_SELECTORS } from '../src/constants';
+import { applySelectorOverrides, cssSelector, findInvalidSelectors } from '../src/functions';
+
+describe('selector overrides', () => {
+    afterEach(() => {
+        applySelectorOverrides({});
+    });
+
+    test('css overrides are resolved without changing CSS_SELECTORS', () => {
+        const builtIn = CSS_SELECTORS.EVENTS;
+
+        expect(applySelectorOverrides({ css: { EVENTS: 'a[href*="/e/"]' } })).toEqual({ icons: [], css: ['EVENTS'] });
+        expect(cssSelector('EVENTS')).toBe('a[href*="/e/"]');
+        expect(cssSelector('VIDEOS')).toBe(CSS_SELECTORS.VIDEOS);
+        expect(CSS_SELECTORS.EVENTS).toBe(builtIn);
+    });
+
+    test('applying again replaces the earlier overrides', () => {
+        applySelectorOverrides({ css: { EVENTS: 'a.event' } });
+        applySelectorOverrides({ css: { VIDEOS: 'a.video' } });
+
+        expect(cssSelector('EVENTS')).toBe(CSS_SELECTORS.EVENTS);
+        expect(cssSelector('VIDEOS')).toBe('a.video');
+    });
+
+    test('invalid overrides apply nothing', () => {
+        expect(() => applySelectorOverrides({
+            css: { EVENTS: 'a.event', VIDEOS: 'a[[', UNKNOWN: 'a' },
+            icons: { phone: { add: ['not an icon'] } },
+        })).toThrow([
+            'Invalid selector overrides:',
+            'Icons of "phone" must be non-empty lists of icon names, like "6oGknb-0EsE"',
+            `Unknown CSS selector "UNKNOWN", must be one of ${Object.keys(CSS_SELECTORS).join(', ')}`,
+            'CSS selector "a[[" isn\'t valid',
+        ].join('\n'));
+
+        expect(cssSelector('EVENTS')).toBe(CSS_SELECTORS.EVENTS);
+    });
+
+    test('finds the selectors that can\'t be parsed', () => {
+        expect(findInvalidSelectors([...Object.values(CSS_SELECTORS), 'a[[', 'div >', 'a,', ':scope > div'])).toEqual(['a[[', 'div >', 'a,']);
+    });
+});
@@ -0,0 +1,135 @@
+import Apify from 'apify';
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import * as path from 'path';
+import { webhookSink } from '../src/webhook';
+
+const storage = mkdtempSync(path.join(tmpdir(), 'webhook-'));
+process.env.APIFY_LOCAL_STORAGE_DIR = storage;
+
+interface Received {
+    headers: http.IncomingHttpHeaders;
+    body: any;
+}
+
+describe('webhookSink', () => {
+    let server: http.Server;
+    let url: string;
+    let received: Received[] = [];
+    let failing = 0;
+
+    beforeAll(async () => {
+        server = http.createServer((req, res) => {
+            let body = '';
+
+            req.on('data', (chunk) => { body += chunk; });
+            req.on('end', () => {
+                if (failing > 0) {
+                    failing--;
+                    res.writeHead(500).end();
+                    return;
+                }
+
+                received.push({ headers: req.headers, body: JSON.parse(body) });
+                res.writeHead(200).end();
+            });
+        });
+
+        await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+
+        url = `http://127.0.0.1:${(server.address() as AddressInfo).port}/ingest`;
+    });
+
+    afterAll(async () => {
+        Apify.events.removeAllListeners();
+        await new Promise((resolve) => server.close(resolve));
+        rmSync(storage, { recursive: true, force: true });
+    });
+
+    beforeEach(() => {
+        received = [];
+        failing = 0;
+    });
+
+    test('delivers batches with the headers', async () => {
+        const sink = await webhookSink({
+            url,
+            headers: { authorization: 'Bearer token' },
+            batchSize: 2,
+            deadLetterStore: 'batches',
+        });
+
+        await sink.add({ id: 1 });
+        expect(received).toHaveLength(0);
+
+        await sink.add({ id: 2 });
+        await sink.add({ id: 3 });
+        await sink.finish();
+
+        expect(received.map(({ body }) => body)).toEqual([[{ id: 1 }, { id: 2 }], [{ id: 3 }]]);
+        expect(received[0].headers.authorization).toBe('Bearer token');
+        expect(received[0].headers['content-type']).toBe('application/json');
+    });
+
+    test('retries failed deliveries', async () => {
+        const sink = await webhookSink({ url, maxRetries: 2, retryDelaySecs: 0, deadLetterStore: 'retries' });
+
+        failing = 2;
+        await sink.add({ id: 1 });
+
+        expect(received.map(({ body }) => body)).toEqual([[{ id: 1 }]]);
+    });
+
+    test('keeps failed batches on the dead-letter store and delivers them on finish', async () => {
+        const sink = await webhookSink({ url, maxRetries: 1, retryDelaySecs: 0, deadLetterStore: 'dead-letters' });
+        const kv = await Apify.openKeyValueStore('dead-letters');
+
+        await kv.setValue('BATCH-otherRun-1-1', { items: [{ id: 'other' }] });
+
+        failing = 2;
+        await sink.add({ id: 1 });
+
+        expect(received).toHaveLength(0);
+
+        await sink.finish();
+
+        expect(received.map(({ body }) => body)).toEqual([[{ id: 1 }]]);
+
+        const keys: string[] = [];
+        await kv.forEachKey(async (key) => { keys.push(key); });
+
+        // batches of other runs are left alone
+        expect(keys).toEqual(['BATCH-otherRun-1-1']);
+    });
+
+    test('delivers the partial batch when migrating, not on persistState', async () => {
+        const sink = await webhookSink({ url, batchSize: 10, deadLetterStore: 'migrating' });
+
+        await sink.add({ id: 1 });
+
+        Apify.events.emit('persistState', { isMigrating: false });
+        await new Promise((resolve) => setTimeout(resolve, 200));
+
+        expect(received).toHaveLength(0);
+
+        Apify.events.emit('migrating');
+        await new Promise((resolve) => setTimeout(resolve, 200));
+
+        expect(received.map(({ body }) => body)).toEqual([[{ id: 1 }]]);
+
+        await sink.finish();
+
+        expect(received).toHaveLength(1);
+    });
+
+    test('does nothing without an url', async () => {
+        const sink = await webhookSink({});
+
+        await sink.add({ id: 1 });
+        await sink.finish();
+
+        expect(received).toHaveLength(0);
+    });
+});